@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { extractVideoId } from "@/app/lib/videoUtils";
+import { listCaptionTracks, pickCaptionTrack, summarizeTrack } from "@/app/lib/captionTracks";
+
+/**
+ * List every caption track of a video (language, manual or auto-generated,
+ * translatable) and the one generation would pick by default
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { url } = await request.json();
+
+        if (!url) {
+            return NextResponse.json(
+                { error: "YouTube URL is required" },
+                { status: 400 }
+            );
+        }
+
+        const videoId = extractVideoId(url);
+        if (!videoId) {
+            return NextResponse.json(
+                { error: "Invalid YouTube URL" },
+                { status: 400 }
+            );
+        }
+
+        const tracks = await listCaptionTracks(videoId);
+
+        return NextResponse.json({
+            videoId,
+            tracks: tracks.map(summarizeTrack),
+            defaultTrackId: pickCaptionTrack(tracks)?.id ?? null,
+        });
+
+    } catch (error) {
+        console.error("Error listing caption tracks:", error);
+        return NextResponse.json(
+            { error: "Failed to list caption tracks" },
+            { status: 500 }
+        );
+    }
+}
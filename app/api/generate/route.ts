@@ -1,479 +1,670 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
-import { fetchTranscriptWithFallback } from "@/app/lib/transcriptUtils";
+import type { Readable } from "stream";
+import {
+  fetchTranscriptWithFallback,
+  type TranscriptAttempt,
+  type TranscriptResult,
+} from "@/app/lib/transcriptUtils";
 import { extractVideoId } from "@/app/lib/videoUtils";
+import {
+  CAPTION_FORMATS,
+  MAX_TRANSCRIPT_CHARS,
+  parseTranscriptFile,
+  type CaptionFormat,
+} from "@/app/lib/captionFormats";
+import type { GenerationEvent, GenerationMode } from "@/app/lib/generationEvents";
+import { getModelChain } from "@/app/lib/llmProviders";
+import { generateStructured } from "@/app/lib/structuredGeneration";
+import {
+  validateTutorialContinuation,
+  validateTutorialDocument,
+  type TutorialAsset,
+  type TutorialContinuation,
+  type TutorialDocument,
+  type TutorialSection,
+} from "@/app/lib/tutorialSchema";
+import { renderSectionMarkdown, renderTutorialMarkdown } from "@/app/lib/tutorialRenderer";
+import {
+  chapterRanges,
+  chunkTranscript,
+  estimateTokens,
+  getChunkTokenBudget,
+  hasTimings,
+  segmentsFromText,
+  timestampedText,
+  type ChapterRange,
+  type TranscriptChunk,
+} from "@/app/lib/chunkingUtils";
+import { generateOutlineFirst, MIN_OUTLINE_CHAPTERS } from "@/app/lib/outlineGeneration";
+import { fetchVideoMetadata } from "@/app/lib/videoMetadata";
+import { formatTimestamp } from "@/app/lib/timestamps";
+import { cleanTranscript } from "@/app/lib/transcriptCleanup";
+import { mergeTutorialParts } from "@/app/lib/tutorialMerge";
+import { anchorSections, closeTimeRanges } from "@/app/lib/tutorialTimeline";
+import { verifyCodeAgainstFrames, type VerificationStats } from "@/app/lib/codeVerification";
+import { attachStepScreenshots } from "@/app/lib/stepScreenshots";
+import { storyboardFrameSource } from "@/app/lib/storyboardUtils";
+import { downloadVideo, type DownloadedVideo } from "@/app/lib/downloadVideo";
+import { getSpeechToTextProvider } from "@/app/lib/speechToText";
+import {
+  checkRecordingFile,
+  checkUploadLength,
+  recordingFrameSource,
+  recordingMetadata,
+  saveRecording,
+  transcribeRecording,
+  type ScreenRecording,
+} from "@/app/lib/screenRecording";
+import { readFormField, readMultipartForm } from "@/app/lib/multipartForm";
+import {
+  buildOptionsPrompt,
+  DEFAULT_GENERATION_OPTIONS,
+  parseGenerationOptions,
+  type GenerationOptions,
+} from "@/app/lib/generationOptions";
+import {
+  DEFAULT_TEMPLATE_ID,
+  frameTranscript,
+  getTemplate,
+  getTemplatePromptTokens,
+  renderTemplatePart,
+  type PromptTemplate,
+} from "@/app/lib/promptTemplates";
+
+// In "auto" mode, videos with at least this many chunks are generated outline-first
+const OUTLINE_MIN_CHUNKS = 3;
+
+// Appended to the first part when the transcript continues in later parts
+const MULTIPART_NOTE = "Note: This is part 1 of a multi-part transcript. Focus on the beginning sections (Overview, Prerequisites, Table of Contents, and start the main content). Do NOT include Summary/Next Steps yet.";
 
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+/**
+ * Extract a summary from the generated content for context passing
+ */
+function extractSummary(sections: TutorialSection[]): string {
+  if (sections.length === 0) return "";
 
-// Model fallback configuration - ordered by priority
-const FALLBACK_MODELS = [
-  "gemini-2.5-flash",
-  "gemini-2.5-flash-lite",
-  "gemini-3-flash",
-  "gemini-2.0-flash",
-  "gemini-1.5-flash",
-];
+  return `Sections covered: ${sections.map(section => section.title).join(', ')}`;
+}
 
-// Track which models have hit quota (resets on server restart)
-const modelQuotaExhausted: Set<string> = new Set();
+/**
+ * Get the last section preview for context
+ */
+function getLastSectionPreview(sections: TutorialSection[]): string {
+  const last = sections[sections.length - 1];
+  if (!last) return "";
+
+  // Titles of every step plus the full last step, rendered as it will appear
+  const stepTitles = last.steps.map(step => `- ${step.title}`).join('\n');
+  const lastStep = last.steps[last.steps.length - 1];
+  const lastStepMarkdown = lastStep
+    ? renderSectionMarkdown({ ...last, description: "", steps: [lastStep] }, sections.length)
+    : "";
+
+  return `Section "${last.title}" with steps:\n${stepTitles}\n\nLast step:\n${lastStepMarkdown.slice(-1500)}`;
+}
 
 /**
- * Get a working model, falling back through the list if quota is exhausted
+ * The author's chapters a chunk covers, as instructions to use them as the
+ * chunk's top-level sections
  */
-function getAvailableModel(): GenerativeModel {
-  for (const modelName of FALLBACK_MODELS) {
-    if (!modelQuotaExhausted.has(modelName)) {
-      console.log(`[API] Using model: ${modelName}`);
-      return genAI.getGenerativeModel({ model: modelName });
-    }
-  }
-  // All models exhausted, try the first one anyway (quota might have reset)
-  console.log(`[API] All models quota exhausted, retrying: ${FALLBACK_MODELS[0]}`);
-  modelQuotaExhausted.clear();
-  return genAI.getGenerativeModel({ model: FALLBACK_MODELS[0] });
+function chunkChaptersNote(chunk: TranscriptChunk, chapters: ChapterRange[]): string {
+  const covered = chapters.filter(range => range.from < chunk.endSegment && range.to > chunk.startSegment);
+  if (covered.length === 0) return "";
+
+  const list = covered.map(range => `- [${formatTimestamp(range.chapter.start)}] ${range.chapter.title}`).join('\n');
+  return `## CHAPTERS IN THIS PART
+The video's author split this part into the chapters below. Use them as your top-level sections: one section per chapter, in this order, with these exact titles.
+${list}`;
 }
 
 /**
- * Generate content with automatic model fallback on quota errors
+ * Write the tutorial one chunk at a time, passing a summary of what was
+ * already written into each continuation prompt. With `chapters`, each
+ * chunk is told which of the author's chapters it covers.
  */
-async function generateWithFallback(prompt: string, retryCount = 0): Promise<{ text: string; model: string }> {
-  const maxRetries = FALLBACK_MODELS.length;
+async function generateSequentially(
+  chunks: TranscriptChunk[],
+  chapters: ChapterRange[],
+  template: PromptTemplate,
+  options: GenerationOptions,
+  send: (event: GenerationEvent) => void,
+  signal: AbortSignal
+): Promise<TutorialDocument> {
+  const optionsPrompt = buildOptionsPrompt(options);
+  const timed = chunks.some(chunk => chunk.end > 0);
+  // Sections are told to use these titles, so "Introduction" or "Summary" here is content
+  const chapterTitles = chapters.map(range => range.chapter.title);
+
+  // Process each chunk
+  let firstDocument: TutorialDocument | null = null;
+  const continuations: TutorialContinuation[] = [];
+  let previousSummary = "";
+  let lastSectionPreview = "";
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i].text;
+    // Keep each part's steps inside the stretch of video it was written from
+    const anchor = (sections: TutorialSection[]) => (timed ? anchorSections(sections, chunks[i]) : sections);
+    const isFirstChunk = i === 0;
+    const isLastChunk = i === chunks.length - 1;
+
+    console.log(`[API] Processing chunk ${i + 1}/${chunks.length} (${chunk.length} chars)...`);
+    send({ type: "chunk-start", index: i, total: chunks.length, chars: chunk.length });
+    const chunkStartedAt = Date.now();
+
+    let prompt: string;
+
+    if (isFirstChunk) {
+      // First chunk: the template's full tutorial prompt
+      prompt = renderTemplatePart(template, "first", {
+        TRANSCRIPT: frameTranscript(`TRANSCRIPT TO CONVERT (Part 1 of ${chunks.length})`, chunk),
+        PART_NUMBER: 1,
+        TOTAL_PARTS: chunks.length,
+      });
+      prompt += `\n\n${chunks.length > 1 ? MULTIPART_NOTE : 'Generate the complete tutorial now.'}`;
+    } else {
+      // Continuation chunks: the template's continuation prompt with context
+      prompt = renderTemplatePart(template, "continuation", {
+        TRANSCRIPT: frameTranscript(`TRANSCRIPT CONTINUATION (Part ${i + 1} of ${chunks.length})`, chunk),
+        PART_NUMBER: i + 1,
+        TOTAL_PARTS: chunks.length,
+        PREVIOUS_SUMMARY: previousSummary,
+        LAST_SECTION_PREVIEW: lastSectionPreview,
+      });
+
+      if (isLastChunk && template.parts.final) {
+        prompt += `\n\n${renderTemplatePart(template, "final")}`;
+      }
+    }
 
-  if (retryCount >= maxRetries) {
-    throw new Error("All models have hit quota limits. Please try again later.");
-  }
+    const chaptersNote = chunkChaptersNote(chunks[i], chapters);
+    if (chaptersNote) prompt += `\n\n${chaptersNote}`;
+
+    prompt += `\n\n${optionsPrompt}`;
+
+    // Generate a validated JSON response for this chunk with model fallback
+    let usedModel: string;
+    let chunkSections: TutorialSection[];
+
+    if (isFirstChunk) {
+      const generated = await generateStructured(prompt, validateTutorialDocument, `Chunk ${i + 1}`, { signal });
+      firstDocument = { ...generated.value, sections: anchor(generated.value.sections) };
+      usedModel = generated.model;
+      chunkSections = generated.value.sections;
+    } else {
+      const generated = await generateStructured(prompt, validateTutorialContinuation, `Chunk ${i + 1}`, { signal });
+      continuations.push({ ...generated.value, sections: anchor(generated.value.sections) });
+      usedModel = generated.model;
+      chunkSections = generated.value.sections;
+    }
 
-  const model = getAvailableModel();
-  const modelName = FALLBACK_MODELS.find(m => !modelQuotaExhausted.has(m)) || FALLBACK_MODELS[0];
+    const stepCount = chunkSections.reduce((sum, section) => sum + section.steps.length, 0);
+    console.log(`[API] Chunk ${i + 1} response: ${chunkSections.length} sections, ${stepCount} steps (model: ${usedModel})`);
+    send({
+      type: "chunk-done",
+      index: i,
+      total: chunks.length,
+      model: usedModel,
+      chars: JSON.stringify(chunkSections).length,
+      durationMs: Date.now() - chunkStartedAt,
+    });
 
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    return { text: response.text(), model: modelName };
-  } catch (error: unknown) {
-    const err = error as { status?: number; message?: string };
-
-    // Check if it's a quota error (429 or 503)
-    if (err.status === 429 || err.status === 503 ||
-      (err.message && (err.message.includes('quota') || err.message.includes('Resource exhausted')))) {
-      console.log(`[API] Model ${modelName} hit quota limit, switching to next model...`);
-      modelQuotaExhausted.add(modelName);
-      return generateWithFallback(prompt, retryCount + 1);
+    // Extract context for next chunk
+    if (!isLastChunk && firstDocument) {
+      const merged = mergeTutorialParts(firstDocument, continuations, { chapterTitles });
+      previousSummary = extractSummary(merged.sections);
+      lastSectionPreview = getLastSectionPreview(merged.sections);
     }
+  }
 
-    throw error;
+  if (!firstDocument) {
+    throw new Error("No chunks to generate");
   }
+
+  // Merge all responses
+  console.log(`[API] Merging ${continuations.length + 1} responses...`);
+  const document = mergeTutorialParts(firstDocument, continuations, { chapterTitles });
+
+  console.log(`[API] Final tutorial: ${document.sections.length} sections`);
+  return document;
 }
 
-// Constants for chunking
-const CHUNK_SIZE = 20000; // 20k chars per chunk
-const OVERLAP_SIZE = 500; // 500 chars overlap between chunks
-
-// THE ULTIMATE TRANSCRIPT-TO-TUTORIAL PROMPT (for first chunk)
-const TUTORIAL_PROMPT = `You are an elite technical documentation writer. Your mission is to transform a raw YouTube tutorial transcript into world-class, production-ready documentation that rivals official framework docs.
-
-## YOUR EXPERTISE
-You write documentation like the best in the industry: React docs, Stripe docs, Vercel docs. Clean, scannable, actionable.
-
-## CRITICAL RULES
-
-### 1. CODE RECONSTRUCTION (HIGHEST PRIORITY)
-The transcript is spoken word - the instructor dictates code out loud. You MUST:
-- **Reconstruct complete, working code** from verbal descriptions
-- When they say "create a function called X that takes Y and returns Z" → write the actual function
-- When they say "import React from react" → write \`import React from 'react'\`
-- When they mention file names → use them as section headers
-- When they describe terminal commands → format as bash code blocks
-- Fill in obvious gaps (imports, exports, boilerplate) that speakers skip
-- Use modern syntax and best practices for the language mentioned
-
-### 2. STRUCTURE
-Use this exact structure:
-
-# [Tutorial Title - infer from content]
-
-## Overview
-[2-3 sentences: what we're building and why it matters]
-
-## Prerequisites  
-[Bullet list: required knowledge, tools, versions]
-
-## Table of Contents
-[Link to each major section]
-
-## 1. [First Major Section]
-### Step 1.1: [Specific action]
-[Brief explanation]
-\`\`\`language
-[Complete, working code]
-\`\`\`
-
-### Step 1.2: [Next action]
-...
-
-## 2. [Second Major Section]
-...
-
-## Summary
-[Key takeaways]
-
-## Next Steps
-[Where to go from here]
-
-### 3. FORMATTING STANDARDS
-- Use \`\`\`typescript, \`\`\`javascript, \`\`\`python, \`\`\`bash, \`\`\`css, etc.
-- Use \`inline code\` for: file names, function names, variable names, package names, commands
-- Use **bold** for emphasis on key concepts
-- Use > blockquotes for important tips or warnings
-- Keep paragraphs short (2-3 sentences max)
-- Use bullet points for lists of items
-
-### 4. WHAT TO REMOVE
-- ALL filler words: "um", "uh", "like", "you know", "so", "basically", "actually", "right", "okay"
-- References to video: "as you can see", "if you look here", "in this video", "let me show you"
-- Timestamps or time references
-- Tangents and off-topic commentary
-- Repetition and restarts
-
-### 5. WHAT TO ADD
-- Missing imports that are clearly needed
-- Type annotations if using TypeScript
-- Brief explanations of WHY, not just WHAT
-- Error handling if the context suggests it
-- Comments in code for complex logic
-
-### 6. QUALITY CHECKS
-Before finishing, verify:
-- [ ] Every code block is complete and runnable
-- [ ] Imports match what's used in the code
-- [ ] File names are clearly indicated
-- [ ] Steps are in logical order
-- [ ] No filler words remain
-- [ ] Professional tone throughout
-
-## OUTPUT REQUIREMENTS
-Generate documentation so good that:
-1. A developer could follow it without watching the video
-2. It could be published on an official docs site
-3. Every code block works when copy-pasted
-4. The structure is instantly scannable`;
-
-// CONTINUATION PROMPT (for subsequent chunks)
-const CONTINUATION_PROMPT = `You are continuing to write a technical tutorial documentation. You have already written the beginning of the tutorial based on the first part of the transcript.
-
-## CONTEXT FROM PREVIOUS SECTION
-Here is a summary of what has been covered so far:
-{PREVIOUS_SUMMARY}
-
-The last section you wrote ended with:
-{LAST_SECTION_PREVIEW}
-
-## YOUR TASK
-Continue writing the tutorial from where you left off. The transcript below picks up from where the previous section ended.
-
-## CRITICAL RULES
-1. **DO NOT** repeat the Overview, Prerequisites, or Table of Contents - those are already written
-2. **DO NOT** restart section numbering - continue from where you left off
-3. **MAINTAIN** the same formatting style and structure
-4. **CONTINUE** the step-by-step flow naturally
-5. If this is the FINAL chunk, include the Summary and Next Steps sections
-
-## FORMATTING REMINDERS
-- Use \`\`\`language for code blocks
-- Use \`inline code\` for file names, function names, variables
-- Keep the same professional tone
-
-Continue the tutorial now:`;
-
-// FINAL CHUNK INDICATOR
-const FINAL_CHUNK_SUFFIX = `
-
-**IMPORTANT**: This is the FINAL section of the transcript. Make sure to:
-1. Complete any remaining steps
-2. Add a "## Summary" section with key takeaways
-3. Add a "## Next Steps" section with suggestions for further learning`;
+const encoder = new TextEncoder();
 
 /**
- * Split transcript into overlapping chunks
+ * Wrap an NDJSON stream: `run` receives a `send` function that writes one
+ * event per line. The stream closes when `run` settles.
  */
-function chunkTranscript(transcript: string): string[] {
-  if (transcript.length <= CHUNK_SIZE) {
-    return [transcript];
-  }
-
-  const chunks: string[] = [];
-  let startIndex = 0;
-
-  while (startIndex < transcript.length) {
-    let endIndex = startIndex + CHUNK_SIZE;
-
-    // If not the last chunk, try to find a good break point (end of sentence)
-    if (endIndex < transcript.length) {
-      // Look for sentence endings near the chunk boundary
-      const searchStart = endIndex - 200;
-      const searchEnd = endIndex + 200;
-      const searchRegion = transcript.substring(searchStart, Math.min(searchEnd, transcript.length));
-
-      // Find the last sentence ending (. ! ?) in the search region
-      const sentenceEndMatch = searchRegion.match(/[.!?]\s+(?=[A-Z])/g);
-      if (sentenceEndMatch) {
-        const lastMatch = searchRegion.lastIndexOf(sentenceEndMatch[sentenceEndMatch.length - 1]);
-        if (lastMatch !== -1) {
-          endIndex = searchStart + lastMatch + sentenceEndMatch[sentenceEndMatch.length - 1].length;
+function streamEvents(
+  run: (send: (event: GenerationEvent) => void, signal: AbortSignal) => Promise<void>,
+  requestSignal: AbortSignal
+): Response {
+  // Aborted when the client goes away, so transcription and model calls stop spending quota
+  const abort = new AbortController();
+  const onDisconnect = () => abort.abort(new Error("The client disconnected"));
+  requestSignal.addEventListener("abort", onDisconnect, { once: true });
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Nothing can be written once the client has cancelled the stream
+      const send = (event: GenerationEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        await run(send, abort.signal);
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log("[API] Stopped: the client disconnected");
+        } else {
+          console.error("[API] Fatal error:", error);
+          send({ type: "error", error: "Failed to generate tutorial. Please try again later." });
         }
+      } finally {
+        requestSignal.removeEventListener("abort", onDisconnect);
+        if (!cancelled) controller.close();
       }
-    }
-
-    chunks.push(transcript.substring(startIndex, endIndex));
-
-    // Next chunk starts with overlap
-    startIndex = endIndex - OVERLAP_SIZE;
+    },
+    cancel() {
+      cancelled = true;
+      onDisconnect();
+    },
+  });
 
-    // Prevent infinite loop
-    if (startIndex >= transcript.length - OVERLAP_SIZE) {
-      break;
-    }
-  }
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
 
-  return chunks;
+/** A transcript sent with the request instead of being fetched from YouTube */
+interface UploadedTranscript {
+  content: string;
+  filename?: string;
+  format?: CaptionFormat;
 }
 
 /**
- * Extract a summary from the generated content for context passing
+ * Validate an uploaded transcript and parse it up front, so a bad file is a
+ * 400 instead of a failed stream. Returns null when none was sent.
  */
-function extractSummary(content: string): string {
-  // Extract headings to understand what was covered
-  const headings = content.match(/^##?\s+.+$/gm) || [];
-  const summaryParts: string[] = [];
-
-  // Get section titles
-  headings.slice(0, 10).forEach(h => {
-    summaryParts.push(h.replace(/^#+\s+/, ''));
-  });
+function readUploadedTranscript(raw: unknown): { ok: true; value: TranscriptResult | null } | { ok: false; error: string } {
+  if (raw === undefined || raw === null) return { ok: true, value: null };
 
-  if (summaryParts.length === 0) {
-    // Fallback: just use the last 500 chars
-    return content.slice(-500);
+  const upload = raw as Partial<UploadedTranscript>;
+  if (typeof upload.content !== "string" || !upload.content.trim()) {
+    return { ok: false, error: "transcript.content must be a non-empty string." };
+  }
+  if (upload.content.length > MAX_TRANSCRIPT_CHARS) {
+    return { ok: false, error: `Transcript is too large (max ${MAX_TRANSCRIPT_CHARS.toLocaleString()} characters).` };
+  }
+  if (upload.format !== undefined && !CAPTION_FORMATS.includes(upload.format)) {
+    return { ok: false, error: `Unsupported transcript format "${upload.format}". Use ${CAPTION_FORMATS.map(f => `"${f}"`).join(", ")}.` };
   }
 
-  return `Sections covered: ${summaryParts.join(', ')}`;
+  try {
+    const filename = typeof upload.filename === "string" ? upload.filename : undefined;
+    const { format, segments } = parseTranscriptFile(upload.content, { format: upload.format, filename });
+
+    return {
+      ok: true,
+      value: {
+        text: segments.map(seg => seg.text).join(" "),
+        source: filename ? `upload (${format}: ${filename})` : `upload (${format})`,
+        segments,
+        chapters: [],
+        language: null,
+        track: null,
+      },
+    };
+  } catch (err) {
+    return { ok: false, error: `Could not read the transcript: ${err instanceof Error ? err.message : err}` };
+  }
 }
 
-/**
- * Get the last section preview for context
- */
-function getLastSectionPreview(content: string): string {
-  // Get last 500 chars, but try to start at a section boundary
-  const last1000 = content.slice(-1000);
-  const lastHeadingMatch = last1000.match(/##\s+[^\n]+/g);
-
-  if (lastHeadingMatch) {
-    const lastHeadingIndex = last1000.lastIndexOf(lastHeadingMatch[lastHeadingMatch.length - 1]);
-    return last1000.substring(lastHeadingIndex);
+export async function POST(request: NextRequest) {
+  let url: string | undefined;
+  let mode: GenerationMode | "auto";
+  let templateId: string;
+  let captionTrack: string | undefined;
+  let rawOptions: Record<string, unknown>;
+  let rawTranscript: unknown;
+  let recordingUpload: { filename: string; stream: Readable } | null = null;
+
+  const contentType = request.headers.get("content-type") ?? "";
+  const multipart = contentType.startsWith("multipart/form-data");
+  const uploadError = multipart && checkUploadLength(Number(request.headers.get("content-length")) || 0);
+  if (uploadError) {
+    return NextResponse.json(
+      { error: uploadError },
+      { status: 413 }
+    );
   }
 
-  return content.slice(-500);
-}
+  try {
+    let body;
+    if (multipart && request.body) {
+      // A recording is sent as a file after the usual JSON body in the "request" field.
+      // The form is read as a stream and the file is left unread until the request is checked
+      const fields = new Map<string, string>();
+      const form = readMultipartForm(request.body, contentType);
+      for (let part = await form.next(); !part.done; part = await form.next()) {
+        const { name, filename, stream } = part.value;
+        if (filename === null) {
+          fields.set(name, await readFormField(part.value));
+        } else if (name === "video") {
+          if (!fields.has("request")) throw new Error("The request field must come before the recording");
+          recordingUpload = { filename, stream };
+          break;
+        }
+      }
+      body = JSON.parse(fields.get("request") ?? "{}");
+    } else {
+      body = await request.json();
+    }
+    url = body.url;
+    mode = body.mode || process.env.GENERATION_MODE || "auto";
+    templateId = body.template || process.env.PROMPT_TEMPLATE || DEFAULT_TEMPLATE_ID;
+    captionTrack = body.captionTrack || undefined;
+    rawOptions = body;
+    rawTranscript = body.transcript;
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
 
-/**
- * Merge multiple tutorial responses, removing duplicate content
- */
-function mergeResponses(responses: string[]): string {
-  if (responses.length === 1) {
-    return responses[0];
+  const uploaded = readUploadedTranscript(rawTranscript);
+  if (!uploaded.ok) {
+    return NextResponse.json(
+      { error: uploaded.error },
+      { status: 400 }
+    );
   }
 
-  let merged = responses[0];
+  const recordingError = recordingUpload && checkRecordingFile(recordingUpload.filename);
+  if (recordingError) {
+    return NextResponse.json(
+      { error: recordingError },
+      { status: 400 }
+    );
+  }
 
-  for (let i = 1; i < responses.length; i++) {
-    const current = responses[i];
+  // An uploaded transcript makes the URL optional (it is then only used for watch links)
+  if (!url && !uploaded.value && !recordingUpload) {
+    return NextResponse.json(
+      { error: "YouTube URL, recording or transcript is required" },
+      { status: 400 }
+    );
+  }
 
-    // Try to find overlap and remove it
-    // Look for repeated section headings
-    const firstHeadingMatch = current.match(/^##\s+.+$/m);
-    if (firstHeadingMatch) {
-      const firstHeading = firstHeadingMatch[0];
-      const headingInPrevious = merged.lastIndexOf(firstHeading);
+  if (url && recordingUpload) {
+    return NextResponse.json(
+      { error: "Send either a YouTube URL or a recording, not both." },
+      { status: 400 }
+    );
+  }
 
-      if (headingInPrevious !== -1) {
-        // Remove everything after this heading in the previous content
-        merged = merged.substring(0, headingInPrevious);
-      }
-    }
+  if (!["auto", "sequential", "outline"].includes(mode)) {
+    return NextResponse.json(
+      { error: "Invalid mode. Use \"auto\", \"sequential\" or \"outline\"." },
+      { status: 400 }
+    );
+  }
 
-    // Remove any duplicate "# Title" if present (shouldn't happen with continuations)
-    const cleanedCurrent = current.replace(/^#\s+[^\n]+\n+##\s+Overview[\s\S]*?(?=##\s+\d)/m, '');
+  const template = getTemplate(templateId);
+  if (!template) {
+    return NextResponse.json(
+      { error: `Unknown prompt template "${templateId}".` },
+      { status: 400 }
+    );
+  }
 
-    merged += '\n\n' + cleanedCurrent;
+  const parsedOptions = parseGenerationOptions(rawOptions, {
+    ...DEFAULT_GENERATION_OPTIONS,
+    language: process.env.OUTPUT_LANGUAGE || DEFAULT_GENERATION_OPTIONS.language,
+  });
+  if (!parsedOptions.ok) {
+    return NextResponse.json(
+      { error: parsedOptions.error },
+      { status: 400 }
+    );
   }
 
-  // Clean up excessive newlines
-  merged = merged.replace(/\n{4,}/g, '\n\n\n');
+  const options = parsedOptions.value;
 
-  return merged;
-}
+  // Extract video ID
+  const videoId = url ? extractVideoId(url) : null;
+  if (url && !videoId) {
+    return NextResponse.json(
+      { error: "Invalid YouTube URL. Please provide a valid YouTube video link." },
+      { status: 400 }
+    );
+  }
 
-export async function POST(request: NextRequest) {
-  try {
-    const { url } = await request.json();
+  // Check that at least one LLM provider is usable
+  if (getModelChain().length === 0) {
+    return NextResponse.json(
+      { error: "No LLM provider configured. Set GEMINI_API_KEY, GROQ_API_KEY or OPENAI_COMPATIBLE_BASE_URL, or LLM_PROVIDERS=mock." },
+      { status: 500 }
+    );
+  }
+
+  // A recording without a transcript is transcribed from its audio
+  const speechToText = recordingUpload && !uploaded.value ? getSpeechToTextProvider() : null;
+  if (recordingUpload && !uploaded.value && !speechToText) {
+    return NextResponse.json(
+      { error: "Transcribing a recording needs a speech-to-text engine (set WHISPER_CPP_MODEL). You can add its transcript instead." },
+      { status: 400 }
+    );
+  }
 
-    if (!url) {
+  let recording: ScreenRecording | null = null;
+  if (recordingUpload) {
+    try {
+      recording = await saveRecording(recordingUpload.filename, recordingUpload.stream, request.signal);
+    } catch (err) {
       return NextResponse.json(
-        { error: "YouTube URL is required" },
+        { error: `Could not read the recording: ${err instanceof Error ? err.message : err}` },
         { status: 400 }
       );
     }
 
-    // Extract video ID
-    const videoId = extractVideoId(url);
-    if (!videoId) {
+    if (speechToText && !recording.tracks.hasAudio) {
+      await recording.cleanup();
       return NextResponse.json(
-        { error: "Invalid YouTube URL. Please provide a valid YouTube video link." },
+        { error: "The recording has no audio track to transcribe. You can add its transcript instead." },
         { status: 400 }
       );
     }
+  }
 
-    console.log(`[API] Processing video: ${videoId}`);
+  // Everything past validation is streamed so the client can show real progress
+  const generate = async (send: (event: GenerationEvent) => void, signal: AbortSignal) => {
+    console.log(`[API] Processing ${videoId ? `video: ${videoId}` : recording ? `recording: ${recording.filename}` : "uploaded transcript"} (template: ${template.id}@${template.version}, ${options.language}, ${options.audience}, ${options.length}${options.explainConcepts ? "" : ", steps only"})`);
+    if (videoId) send({ type: "video-id", videoId });
+    if (recording) send({ type: "recording-ready", filename: recording.filename, duration: recording.duration });
 
-    // Check for API key
-    if (!process.env.GEMINI_API_KEY) {
-      return NextResponse.json(
-        { error: "API key not configured. Please add GEMINI_API_KEY to environment variables." },
-        { status: 500 }
-      );
-    }
+    // Looked up alongside the transcript; a tutorial is still written without it
+    const metadataPromise = videoId
+      ? fetchVideoMetadata(videoId).catch(err => {
+          console.log(`[API] No video metadata: ${err instanceof Error ? err.message : err}`);
+          return null;
+        })
+      : Promise.resolve(recording ? recordingMetadata(recording) : null);
 
     // Transcript fetch logic updated to handle errors explicitly in transcriptUtils
-    let transcript: string | null = null;
-    let transcriptSource: string | null = null;
-    let fetchError = "";
+    let transcriptResult: TranscriptResult | null = uploaded.value;
+    let diagnostics: TranscriptAttempt[] = [];
+
+    if (transcriptResult) {
+      // Uploaded transcripts never touch YouTube
+      console.log(`[API] Using ${transcriptResult.source}: ${transcriptResult.text.length} chars, ${transcriptResult.segments.length} segments`);
+      send({ type: "transcript-success", strategy: transcriptResult.source, chars: transcriptResult.text.length });
+    } else if (recording && speechToText) {
+      send({ type: "transcript-attempt", strategy: speechToText.label });
+      try {
+        transcriptResult = await transcribeRecording(recording, speechToText, signal);
+      } catch (err) {
+        console.log(`[API] Could not transcribe the recording: ${err instanceof Error ? err.message : err}`);
+        send({
+          type: "error",
+          error: "Could not transcribe the recording.",
+          details: err instanceof Error ? err.message : String(err),
+          tips: "Check that the recording has speech and that the speech-to-text engine works, or add its transcript instead.",
+        });
+        return;
+      }
 
-    try {
+      console.log(`[API] Transcribed the recording: ${transcriptResult.text.length} chars, ${transcriptResult.segments.length} segments`);
+      send({ type: "transcript-success", strategy: speechToText.label, chars: transcriptResult.text.length });
+    } else if (videoId) {
       console.log(`[API] Fetching transcript...`);
-      const result = await fetchTranscriptWithFallback(videoId);
+      const fetched = await fetchTranscriptWithFallback(videoId, send, { trackId: captionTrack }, signal);
+      transcriptResult = fetched.result;
+      diagnostics = fetched.diagnostics;
 
-      if (result) {
-        transcript = result.text;
-        transcriptSource = result.source;
-        console.log(`[API] Transcript success via ${result.source}: ${result.text.length} chars`);
+      if (transcriptResult) {
+        console.log(`[API] Transcript success via ${transcriptResult.source}: ${transcriptResult.text.length} chars`);
       }
-    } catch (err: unknown) {
-      fetchError = err instanceof Error ? err.message : String(err);
-      console.error(`[API] Transcript error: ${fetchError}`);
     }
 
     // Must have transcript
-    if (!transcript) {
-      return NextResponse.json(
-        {
-          error: "Could not extract transcript from this video.",
-          details: fetchError,
-          tips: "Make sure the video has captions enabled. Vercel IPs may be blocked by YouTube."
-        },
-        { status: 400 }
-      );
+    if (!transcriptResult) {
+      send({
+        type: "error",
+        error: "Could not extract transcript from this video.",
+        details: diagnostics.length > 0
+          ? diagnostics.map(attempt => `${attempt.strategy}: ${attempt.error}`).join("\n")
+          : "No transcript strategy is enabled (see TRANSCRIPT_STRATEGIES).",
+        diagnostics,
+        tips: "Make sure the video has captions enabled. Vercel IPs may be blocked by YouTube; you can upload or paste the transcript instead."
+      });
+      return;
     }
 
-    // --- DEBUG LOGGING ---
-    // Debug logging removed as requested
-
-    // Chunk the transcript
-    const chunks = chunkTranscript(transcript);
-    console.log(`[API] Transcript chunked into ${chunks.length} parts (${transcript.length} total chars)`);
-
-    // Process each chunk
-    const responses: string[] = [];
-    let previousSummary = "";
-    let lastSectionPreview = "";
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const isFirstChunk = i === 0;
-      const isLastChunk = i === chunks.length - 1;
-
-      console.log(`[API] Processing chunk ${i + 1}/${chunks.length} (${chunk.length} chars)...`);
-
-      let prompt: string;
-
-      if (isFirstChunk) {
-        // First chunk: use full tutorial prompt
-        prompt = `${TUTORIAL_PROMPT}
-
----
-## TRANSCRIPT TO CONVERT (Part 1 of ${chunks.length})
----
+    const { source: transcriptSource } = transcriptResult;
 
-${chunk}
+    const video = await metadataPromise;
 
----
-END OF TRANSCRIPT SECTION
----
-
-${chunks.length > 1 ? 'Note: This is part 1 of a multi-part transcript. Focus on the beginning sections (Overview, Prerequisites, Table of Contents, and start the main content). Do NOT include Summary/Next Steps yet.' : 'Generate the complete tutorial now.'}`;
-      } else {
-        // Continuation chunks: use continuation prompt with context
-        prompt = CONTINUATION_PROMPT
-          .replace('{PREVIOUS_SUMMARY}', previousSummary)
-          .replace('{LAST_SECTION_PREVIEW}', lastSectionPreview);
-
-        prompt += `
+    // Caption sources other than the transcript panel don't carry chapters
+    let chapters = transcriptResult.chapters;
+    if (chapters.length === 0 && video) {
+      chapters = video.chapters;
+    }
 
----
-## TRANSCRIPT CONTINUATION (Part ${i + 1} of ${chunks.length})
----
+    // Strip caption noise before anything is measured or chunked
+    const { segments, stats: cleanupStats } = cleanTranscript(
+      transcriptResult.segments.length > 0 ? transcriptResult.segments : segmentsFromText(transcriptResult.text)
+    );
+    const transcript = segments.map(seg => seg.text).join(" ");
+    console.log(`[API] Transcript cleanup saved ${cleanupStats.charsSaved} chars (~${cleanupStats.tokensSaved} tokens): ${cleanupStats.segmentsRemoved} segments removed, ${cleanupStats.sentencesRestored} sentence ends restored`);
+    send({ type: "cleanup", charsSaved: cleanupStats.charsSaved, tokensSaved: cleanupStats.tokensSaved });
 
-${chunk}
+    if (segments.length === 0) {
+      send({ type: "error", error: "The transcript is empty once caption noise is removed." });
+      return;
+    }
 
----
-END OF TRANSCRIPT SECTION
----`;
+    // Chunk the transcript to fit every model in the fallback chain
+    const tokenBudget = getChunkTokenBudget(
+      getModelChain(),
+      getTemplatePromptTokens(template) + estimateTokens(buildOptionsPrompt(options))
+    );
+    // With real timings the model sees [m:ss] markers and cites where each step starts
+    const timed = hasTimings(segments);
+    // The author's chapters become the tutorial's sections, so chunks are only cut between them
+    const useChapters = timed && chapters.length >= MIN_OUTLINE_CHAPTERS;
+    const chunks = chunkTranscript(segments, { tokenBudget, chapters, splitAtChapters: useChapters }).map(chunk => ({
+      ...chunk,
+      text: timed ? timestampedText(segments, chunk.startSegment, chunk.endSegment) : chunk.text,
+    }));
+    console.log(`[API] Transcript chunked into ${chunks.length} parts (${transcript.length} total chars, ${tokenBudget} token budget${useChapters ? `, ${chapters.length} chapters` : ""})`);
+    send({ type: "chunking", totalChunks: chunks.length, totalChars: transcript.length });
+
+    const useOutline = mode === "outline" || (mode === "auto" && chunks.length >= OUTLINE_MIN_CHUNKS);
+    let document: TutorialDocument;
+    let chunksProcessed = chunks.length;
+
+    if (useOutline) {
+      const outlined = await generateOutlineFirst(segments, useChapters ? chapters : [], tokenBudget, template, options, send, signal);
+      document = outlined.document;
+      chunksProcessed = outlined.sectionsProcessed;
+    } else {
+      document = await generateSequentially(chunks, useChapters ? chapterRanges(segments, chapters) : [], template, options, send, signal);
+    }
 
-        if (isLastChunk) {
-          prompt += FINAL_CHUNK_SUFFIX;
-        }
+    const lastSegment = segments[segments.length - 1];
+    document = closeTimeRanges(document, timed ? lastSegment.start + lastSegment.duration : null);
+
+    // Storyboard frames are too small to read code from: checking it needs the video itself
+    let downloaded: DownloadedVideo | null = null;
+    if (options.verifyCode && !recording && videoId) {
+      try {
+        downloaded = await downloadVideo(videoId, { content: "video", signal });
+      } catch (err) {
+        signal.throwIfAborted();
+        console.log(`[API] Using the storyboard, the video could not be downloaded: ${err instanceof Error ? err.message : err}`);
       }
+    }
 
-      // Debug prompt save removed
-
-      // Generate response for this chunk with model fallback
-      const { text: chunkResponse, model: usedModel } = await generateWithFallback(prompt);
-
-      console.log(`[API] Chunk ${i + 1} response: ${chunkResponse.length} chars (model: ${usedModel})`);
-
-      responses.push(chunkResponse);
+    let verification: VerificationStats | null = null;
+    let assets: TutorialAsset[] = [];
+    try {
+      // Passes that look at the screen read the recording or downloaded video, or the video's storyboard
+      const file = recording ?? (downloaded && { ...downloaded, duration: null });
+      const frameSource = (file && recordingFrameSource(file)) ?? (videoId ? storyboardFrameSource(videoId) : null);
 
-      // Extract context for next chunk
-      if (!isLastChunk) {
-        previousSummary = extractSummary(responses.join('\n\n'));
-        lastSectionPreview = getLastSectionPreview(chunkResponse);
+      if (options.verifyCode) {
+        ({ document, stats: verification } = await verifyCodeAgainstFrames(document, frameSource, send, signal));
       }
-
-      // Debug response save removed
+      if (options.screenshots) {
+        ({ document, assets } = await attachStepScreenshots(document, frameSource, send));
+      }
+    } finally {
+      await downloaded?.cleanup();
     }
 
-    // Merge all responses
-    console.log(`[API] Merging ${responses.length} responses...`);
-    const tutorial = mergeResponses(responses);
-
-    console.log(`[API] Final tutorial: ${tutorial.length} chars`);
-
-    // Debug final response save removed
-
-    return NextResponse.json({
-      success: true,
-      tutorial,
-      videoId,
-      hasTranscript: true,
-      transcriptSource,
-      chunksProcessed: chunks.length,
+    // Every consumer gets markdown from the same renderer
+    const tutorial = renderTutorialMarkdown(document, { videoId, video, language: options.language });
+
+    send({ type: "merge-done", chars: tutorial.length });
+
+    send({
+      type: "complete",
+      result: {
+        success: true,
+        tutorial,
+        document,
+        videoId,
+        video,
+        hasTranscript: true,
+        transcriptSource,
+        captionTrack: transcriptResult.track,
+        cleanup: cleanupStats,
+        verification,
+        assets,
+        transcript: segments,
+        transcriptDiagnostics: diagnostics,
+        sourceLanguage: transcriptResult.language,
+        targetLanguage: options.language,
+        chunksProcessed,
+        mode: useOutline ? "outline" : "sequential",
+        template: { id: template.id, version: template.version },
+      },
     });
+  };
 
-  } catch (error) {
-    console.error("[API] Fatal error:", error);
-    return NextResponse.json(
-      { error: "Failed to generate tutorial. Please try again later." },
-      { status: 500 }
-    );
-  }
+  // The recording's temporary directory goes once the stream ends, however it ends
+  return streamEvents(async (send, signal) => {
+    try {
+      await generate(send, signal);
+    } finally {
+      await recording?.cleanup();
+    }
+  }, request.signal);
 }
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getModelStatuses } from "@/app/lib/modelFallback";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Report the circuit-breaker state (closed / open / half-open) of every
+ * model in the configured fallback chain
+ */
+export async function GET() {
+    const models = getModelStatuses();
+
+    return NextResponse.json({
+        models: models.map(status => ({
+            ...status,
+            retryAt: status.retryAt ? new Date(status.retryAt).toISOString() : null,
+        })),
+    });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_TEMPLATE_ID, loadTemplates, summarizeTemplate } from "@/app/lib/promptTemplates";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List the prompt templates the generator can use, plus any template
+ * files that failed validation
+ */
+export async function GET() {
+    const { templates, errors } = loadTemplates();
+
+    return NextResponse.json({
+        defaultTemplate: process.env.PROMPT_TEMPLATE || DEFAULT_TEMPLATE_ID,
+        templates: templates.map(summarizeTemplate),
+        errors,
+    });
+}
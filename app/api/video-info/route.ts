@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { extractVideoId, getVideoInfo } from "@/app/lib/videoUtils";
+import { extractVideoId } from "@/app/lib/videoUtils";
+import { fetchVideoMetadata } from "@/app/lib/videoMetadata";
 
 export async function POST(request: NextRequest) {
     try {
@@ -20,20 +21,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const info = await getVideoInfo(videoId);
-
-        // Get the highest resolution thumbnail commonly available
-        const thumbnail =
-            info.thumbnails.find(t => t.includes("maxresdefault")) ||
-            info.thumbnails[0] ||
-            `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
-
-        return NextResponse.json({
-            title: info.title,
-            thumbnail,
-            videoId,
-            duration: info.duration
-        });
+        return NextResponse.json(await fetchVideoMetadata(videoId));
 
     } catch (error) {
         console.error("Error fetching video info:", error);
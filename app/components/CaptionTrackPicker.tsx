@@ -0,0 +1,62 @@
+"use client";
+
+import { Captions, Loader2 } from "lucide-react";
+import type { CaptionTrackSummary } from "@/app/lib/captionTracks";
+
+interface CaptionTrackPickerProps {
+    tracks: CaptionTrackSummary[];
+    /** Track the server picks when none is chosen */
+    defaultTrackId: string | null;
+    loading: boolean;
+    /** Empty string means "let the server pick" */
+    value: string;
+    onChange: (id: string) => void;
+}
+
+function trackLabel(track: CaptionTrackSummary): string {
+    return `${track.name} · ${track.kind === "asr" ? "auto-generated" : "manual"}`;
+}
+
+export function CaptionTrackPicker({ tracks, defaultTrackId, loading, value, onChange }: CaptionTrackPickerProps) {
+    if (loading) {
+        return (
+            <div className="mt-4 flex items-center gap-2 text-xs text-[#717171]">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Looking for caption tracks...
+            </div>
+        );
+    }
+
+    if (tracks.length === 0) return null;
+
+    const defaultTrack = tracks.find(track => track.id === defaultTrackId);
+
+    return (
+        <div className="mt-4">
+            <label
+                htmlFor="caption-track"
+                className="mb-2 block text-xs font-medium uppercase tracking-wide text-[#717171]"
+            >
+                Caption track
+            </label>
+            <div className="relative inline-flex items-center">
+                <Captions className="pointer-events-none absolute left-3 h-4 w-4 text-[#717171]" />
+                <select
+                    id="caption-track"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="h-9 max-w-full appearance-none rounded-full border border-[#303030] bg-[#121212] pl-9 pr-4 text-sm text-white outline-none focus-visible:border-[#3ea6ff]"
+                >
+                    <option value="">
+                        {defaultTrack ? `Best available (${trackLabel(defaultTrack)})` : "Best available"}
+                    </option>
+                    {tracks.map(track => (
+                        <option key={track.id} value={track.id}>
+                            {trackLabel(track)}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import {
+    AUDIENCE_LEVELS,
+    TARGET_LENGTHS,
+    type AudienceLevel,
+    type GenerationOptions,
+    type TargetLength,
+} from "@/app/lib/generationOptions";
+
+type DepthOptions = Pick<GenerationOptions, "audience" | "length" | "explainConcepts" | "verifyCode" | "screenshots">;
+
+interface DepthControlsProps {
+    value: DepthOptions;
+    onChange: (value: DepthOptions) => void;
+}
+
+function Segmented<T extends string>({
+    label,
+    options,
+    value,
+    onChange,
+}: {
+    label: string;
+    options: { value: T; label: string }[];
+    value: T;
+    onChange: (value: T) => void;
+}) {
+    return (
+        <div>
+            <div className="mb-2 text-xs font-medium uppercase tracking-wide text-[#717171]">{label}</div>
+            <div className="inline-flex rounded-full border border-[#303030] bg-[#121212] p-0.5" role="radiogroup" aria-label={label}>
+                {options.map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        role="radio"
+                        aria-checked={option.value === value}
+                        onClick={() => onChange(option.value)}
+                        className={`rounded-full px-3 py-1 text-sm transition-colors ${
+                            option.value === value ? "bg-[#263850] text-white" : "text-[#aaaaaa] hover:text-white"
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export function DepthControls({ value, onChange }: DepthControlsProps) {
+    return (
+        <div className="mt-4 flex flex-wrap items-end gap-x-6 gap-y-4">
+            <Segmented<AudienceLevel>
+                label="Audience"
+                options={AUDIENCE_LEVELS}
+                value={value.audience}
+                onChange={(audience) => onChange({ ...value, audience })}
+            />
+            <Segmented<TargetLength>
+                label="Length"
+                options={TARGET_LENGTHS}
+                value={value.length}
+                onChange={(length) => onChange({ ...value, length })}
+            />
+            <label className="flex h-8 cursor-pointer items-center gap-2 text-sm text-[#aaaaaa]">
+                <input
+                    type="checkbox"
+                    checked={value.explainConcepts}
+                    onChange={(e) => onChange({ ...value, explainConcepts: e.target.checked })}
+                    className="h-4 w-4 accent-[#3ea6ff]"
+                />
+                Explain concepts
+            </label>
+            <label
+                className="flex h-8 cursor-pointer items-center gap-2 text-sm text-[#aaaaaa]"
+                title="Compare code blocks with the code shown in the video using a vision model. Slower."
+            >
+                <input
+                    type="checkbox"
+                    checked={value.verifyCode}
+                    onChange={(e) => onChange({ ...value, verifyCode: e.target.checked })}
+                    className="h-4 w-4 accent-[#3ea6ff]"
+                />
+                Check code against video
+            </label>
+            <label
+                className="flex h-8 cursor-pointer items-center gap-2 text-sm text-[#aaaaaa]"
+                title="Attach a frame of the video to steps where the screen matters (UI, layout, visual results)"
+            >
+                <input
+                    type="checkbox"
+                    checked={value.screenshots}
+                    onChange={(e) => onChange({ ...value, screenshots: e.target.checked })}
+                    className="h-4 w-4 accent-[#3ea6ff]"
+                />
+                Add screenshots
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { OUTPUT_LANGUAGES } from "@/app/lib/generationOptions";
+
+interface LanguagePickerProps {
+    value: string;
+    onChange: (code: string) => void;
+}
+
+export function LanguagePicker({ value, onChange }: LanguagePickerProps) {
+    return (
+        <div className="mt-4">
+            <label
+                htmlFor="output-language"
+                className="mb-2 block text-xs font-medium uppercase tracking-wide text-[#717171]"
+            >
+                Output language
+            </label>
+            <div className="relative inline-flex items-center">
+                <Languages className="pointer-events-none absolute left-3 h-4 w-4 text-[#717171]" />
+                <select
+                    id="output-language"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="h-9 appearance-none rounded-full border border-[#303030] bg-[#121212] pl-9 pr-4 text-sm text-white outline-none focus-visible:border-[#3ea6ff]"
+                >
+                    {OUTPUT_LANGUAGES.map(language => (
+                        <option key={language.code} value={language.code}>
+                            {language.nativeName === language.name
+                                ? language.name
+                                : `${language.nativeName} (${language.name})`}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <p className="mt-2 text-xs text-[#aaaaaa]">Code, identifiers and commands are never translated.</p>
+        </div>
+    );
+}
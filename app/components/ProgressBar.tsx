@@ -1,13 +1,26 @@
 "use client";
 
 import { motion } from "framer-motion";
+import type { ChunkProgress } from "@/app/lib/generationEvents";
 
 interface ProgressBarProps {
     progress: number;
     status: string;
+    chunks?: ChunkProgress[];
+    etaSeconds?: number | null;
 }
 
-export function ProgressBar({ progress, status }: ProgressBarProps) {
+function formatEta(seconds: number): string {
+    if (seconds < 60) return `~${seconds}s remaining`;
+
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return `~${minutes}m ${rest.toString().padStart(2, "0")}s remaining`;
+}
+
+export function ProgressBar({ progress, status, chunks = [], etaSeconds = null }: ProgressBarProps) {
+    const lastModel = [...chunks].reverse().find(c => c.model)?.model;
+
     return (
         <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -15,8 +28,8 @@ export function ProgressBar({ progress, status }: ProgressBarProps) {
             exit={{ opacity: 0, y: -20 }}
             className="w-full max-w-2xl mx-auto"
         >
-            <div className="mb-3 flex items-center justify-between text-sm">
-                <span className="text-[#aaaaaa]">{status}</span>
+            <div className="mb-3 flex items-center justify-between gap-4 text-sm">
+                <span className="truncate text-[#aaaaaa]">{status}</span>
                 <span className="font-mono text-white">{Math.round(progress)}%</span>
             </div>
 
@@ -30,6 +43,33 @@ export function ProgressBar({ progress, status }: ProgressBarProps) {
                 />
             </div>
 
+            {/* Per-chunk indicator */}
+            {chunks.length > 1 && (
+                <div className="mt-4">
+                    <div className="flex gap-1">
+                        {chunks.map((chunk, i) => (
+                            <div
+                                key={i}
+                                title={chunk.model ? `Part ${i + 1}: ${chunk.model}` : `Part ${i + 1}`}
+                                className={`h-1.5 flex-1 rounded-full transition-colors ${chunk.status === "done"
+                                    ? "bg-[#ff0000]"
+                                    : chunk.status === "active"
+                                        ? "animate-pulse bg-[#aaaaaa]"
+                                        : "bg-[#303030]"
+                                    }`}
+                            />
+                        ))}
+                    </div>
+                    <div className="mt-2 flex items-center justify-between text-xs text-[#717171]">
+                        <span>
+                            {chunks.filter(c => c.status === "done").length} / {chunks.length} parts
+                            {lastModel && <> &middot; {lastModel}</>}
+                        </span>
+                        {etaSeconds !== null && etaSeconds > 0 && <span>{formatEta(etaSeconds)}</span>}
+                    </div>
+                </div>
+            )}
+
             {/* Subtle loading indicator */}
             <div className="mt-4 flex justify-center gap-1.5">
                 {[0, 1, 2].map((i) => (
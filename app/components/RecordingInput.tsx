@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Film, X } from "lucide-react";
+import { formatTimestamp } from "@/app/lib/timestamps";
+
+interface RecordingInputProps {
+    value: File | null;
+    onChange: (value: File | null) => void;
+}
+
+const ACCEPTED_FILES = ".mp4,.webm,.mkv,video/mp4,video/webm,video/x-matroska";
+
+function formatSize(bytes: number): string {
+    return bytes >= 1024 * 1024 * 1024
+        ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+        : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function RecordingInput({ value, onChange }: RecordingInputProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [probed, setProbed] = useState<{ file: File; duration: number } | null>(null);
+    // Only the duration of the file currently chosen is shown
+    const duration = probed && probed.file === value ? probed.duration : null;
+
+    // Read the duration from the file's metadata; the server probes it again
+    useEffect(() => {
+        if (!value) return;
+
+        const src = URL.createObjectURL(value);
+        const video = document.createElement("video");
+        video.preload = "metadata";
+        video.onloadedmetadata = () => {
+            if (Number.isFinite(video.duration)) setProbed({ file: value, duration: video.duration });
+            URL.revokeObjectURL(src);
+        };
+        video.onerror = () => URL.revokeObjectURL(src);
+        video.src = src;
+
+        return () => {
+            video.onloadedmetadata = null;
+            video.onerror = null;
+            URL.revokeObjectURL(src);
+        };
+    }, [value]);
+
+    const clear = () => {
+        onChange(null);
+        if (fileInput.current) fileInput.current.value = "";
+    };
+
+    return (
+        <div className="mt-4">
+            <span className="mb-2 block text-xs font-medium uppercase tracking-wide text-[#717171]">
+                Screen recording (optional)
+            </span>
+
+            {value ? (
+                <div className="inline-flex items-center gap-2 rounded-full border border-[#303030] bg-[#121212] py-1.5 pl-3 pr-1.5 text-sm text-white">
+                    <Film className="h-4 w-4 text-[#3ea6ff]" />
+                    <span className="max-w-[16rem] truncate">{value.name}</span>
+                    <span className="text-xs text-[#717171]">
+                        {[duration !== null ? formatTimestamp(duration) : null, formatSize(value.size)].filter(Boolean).join(" · ")}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={clear}
+                        aria-label="Remove recording"
+                        className="rounded-full p-1 text-[#aaaaaa] hover:bg-[#272727] hover:text-white"
+                    >
+                        <X className="h-3.5 w-3.5" />
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <button
+                        type="button"
+                        onClick={() => fileInput.current?.click()}
+                        className="inline-flex items-center gap-2 rounded-full border border-[#303030] bg-[#121212] px-3 py-1.5 text-sm text-[#aaaaaa] transition-colors hover:border-[#717171] hover:text-white"
+                    >
+                        <Film className="h-4 w-4" />
+                        Upload .mp4, .webm or .mkv
+                    </button>
+                    <input
+                        ref={fileInput}
+                        type="file"
+                        accept={ACCEPTED_FILES}
+                        className="hidden"
+                        onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+                    />
+                </>
+            )}
+
+            <p className="mt-2 text-xs text-[#aaaaaa]">
+                {value
+                    ? "The recording is transcribed on the server (unless you add its transcript) and its frames are used for screenshots and code checks."
+                    : "For walkthroughs that aren't on YouTube. Choosing one clears the URL."}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import type { TemplateSummary } from "@/app/lib/promptTemplates";
+
+interface TemplatePickerProps {
+    templates: TemplateSummary[];
+    value: string;
+    onChange: (id: string) => void;
+}
+
+export function TemplatePicker({ templates, value, onChange }: TemplatePickerProps) {
+    if (templates.length === 0) return null;
+
+    const selected = templates.find(t => t.id === value);
+
+    return (
+        <div className="mt-4">
+            <div className="mb-2 text-xs font-medium uppercase tracking-wide text-[#717171]">Output style</div>
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Output style">
+                {templates.map(template => (
+                    <button
+                        key={template.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={template.id === value}
+                        onClick={() => onChange(template.id)}
+                        className={`rounded-full border px-3 py-1.5 text-sm transition-colors ${
+                            template.id === value
+                                ? "border-[#3ea6ff] bg-[#263850] text-white"
+                                : "border-[#303030] bg-[#121212] text-[#aaaaaa] hover:border-[#717171] hover:text-white"
+                        }`}
+                    >
+                        {template.name}
+                    </button>
+                ))}
+            </div>
+            {selected?.description && (
+                <p className="mt-2 text-xs text-[#aaaaaa]">{selected.description}</p>
+            )}
+        </div>
+    );
+}
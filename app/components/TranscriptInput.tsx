@@ -0,0 +1,106 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ClipboardPaste, FileText, Upload, X } from "lucide-react";
+
+/** A transcript provided by the user instead of being fetched from YouTube */
+export interface TranscriptUpload {
+    content: string;
+    /** Set for uploaded files; the server detects the format from it */
+    filename?: string;
+}
+
+interface TranscriptInputProps {
+    value: TranscriptUpload | null;
+    onChange: (value: TranscriptUpload | null) => void;
+}
+
+const ACCEPTED_FILES = ".srt,.vtt,.sbv,.json,.json3,.txt";
+
+export function TranscriptInput({ value, onChange }: TranscriptInputProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [pasting, setPasting] = useState(false);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setPasting(false);
+        onChange({ content: await file.text(), filename: file.name });
+    };
+
+    const clear = () => {
+        setPasting(false);
+        onChange(null);
+        if (fileInput.current) fileInput.current.value = "";
+    };
+
+    return (
+        <div className="mt-4">
+            <span className="mb-2 block text-xs font-medium uppercase tracking-wide text-[#717171]">
+                Transcript (optional)
+            </span>
+
+            {value?.filename ? (
+                <div className="inline-flex items-center gap-2 rounded-full border border-[#303030] bg-[#121212] py-1.5 pl-3 pr-1.5 text-sm text-white">
+                    <FileText className="h-4 w-4 text-[#3ea6ff]" />
+                    <span className="max-w-[16rem] truncate">{value.filename}</span>
+                    <span className="text-xs text-[#717171]">{value.content.length.toLocaleString()} chars</span>
+                    <button
+                        type="button"
+                        onClick={clear}
+                        aria-label="Remove transcript"
+                        className="rounded-full p-1 text-[#aaaaaa] hover:bg-[#272727] hover:text-white"
+                    >
+                        <X className="h-3.5 w-3.5" />
+                    </button>
+                </div>
+            ) : (
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        type="button"
+                        onClick={() => fileInput.current?.click()}
+                        className="inline-flex items-center gap-2 rounded-full border border-[#303030] bg-[#121212] px-3 py-1.5 text-sm text-[#aaaaaa] transition-colors hover:border-[#717171] hover:text-white"
+                    >
+                        <Upload className="h-4 w-4" />
+                        Upload .srt, .vtt, .sbv or JSON3
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => (pasting ? clear() : setPasting(true))}
+                        aria-pressed={pasting}
+                        className={`inline-flex items-center gap-2 rounded-full border px-3 py-1.5 text-sm transition-colors ${
+                            pasting
+                                ? "border-[#3ea6ff] bg-[#263850] text-white"
+                                : "border-[#303030] bg-[#121212] text-[#aaaaaa] hover:border-[#717171] hover:text-white"
+                        }`}
+                    >
+                        <ClipboardPaste className="h-4 w-4" />
+                        Paste text
+                    </button>
+                    <input
+                        ref={fileInput}
+                        type="file"
+                        accept={ACCEPTED_FILES}
+                        className="hidden"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                    />
+                </div>
+            )}
+
+            {pasting && !value?.filename && (
+                <textarea
+                    value={value?.content ?? ""}
+                    onChange={(e) => onChange(e.target.value.trim() ? { content: e.target.value } : null)}
+                    placeholder="Paste the transcript (plain text or caption file contents)..."
+                    rows={6}
+                    className="mt-3 w-full rounded-xl border border-[#303030] bg-[#121212] p-3 text-sm text-white outline-none placeholder:text-[#717171] focus-visible:border-[#3ea6ff]"
+                />
+            )}
+
+            <p className="mt-2 text-xs text-[#aaaaaa]">
+                {value
+                    ? "The transcript is used as-is and YouTube is not contacted for captions; the URL, if any, is only used for watch links."
+                    : "Use this when YouTube blocks caption downloads or for recordings that aren't on YouTube."}
+            </p>
+        </div>
+    );
+}
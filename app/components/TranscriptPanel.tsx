@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Search, X } from "lucide-react";
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+import type { TimeRange } from "@/app/lib/tutorialSchema";
+import { formatTimestamp } from "@/app/lib/timestamps";
+
+interface TranscriptPanelProps {
+    segments: TranscriptSegment[];
+    /** Range to scroll to and mark, e.g. the section the reader clicked */
+    focusRange: TimeRange | null;
+    /** Called with the time range of the selected transcript text (null when cleared) */
+    onSelectRange: (range: TimeRange | null) => void;
+    onClose: () => void;
+}
+
+function overlaps(segment: TranscriptSegment, range: TimeRange): boolean {
+    return segment.start < range.end && segment.start + segment.duration >= range.start;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function highlightMatches(text: string, query: RegExp | null): React.ReactNode {
+    if (!query) return text;
+    return text.split(query).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="rounded bg-[#3ea6ff]/30 text-white">{part}</mark> : part
+    );
+}
+
+/** Index of the segment a DOM node belongs to, from its `data-segment` ancestor */
+function segmentIndexOf(node: Node | null): number | null {
+    const element = node instanceof Element ? node : node?.parentElement;
+    const index = element?.closest<HTMLElement>("[data-segment]")?.dataset.segment;
+    return index === undefined ? null : Number(index);
+}
+
+export function TranscriptPanel({ segments, focusRange, onSelectRange, onClose }: TranscriptPanelProps) {
+    const [search, setSearch] = useState("");
+    const listRef = useRef<HTMLDivElement>(null);
+    const timed = segments.some(seg => seg.start > 0 || seg.duration > 0);
+
+    const needle = search.trim().toLowerCase();
+    // Capturing group so split() keeps the matches
+    const query = useMemo(() => (needle ? new RegExp(`(${escapeRegExp(needle)})`, "gi") : null), [needle]);
+    const matching = useMemo(
+        () => new Set(needle ? segments.flatMap((seg, i) => (seg.text.toLowerCase().includes(needle) ? [i] : [])) : []),
+        [needle, segments]
+    );
+
+    // Bring the focused range into view whenever it changes
+    useEffect(() => {
+        if (!focusRange || !listRef.current) return;
+        const first = segments.findIndex(seg => overlaps(seg, focusRange));
+        if (first === -1) return;
+        listRef.current
+            .querySelector(`[data-segment="${first}"]`)
+            ?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }, [focusRange, segments]);
+
+    const handleMouseUp = () => {
+        if (!timed) return;
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed || !listRef.current?.contains(selection.anchorNode)) {
+            onSelectRange(null);
+            return;
+        }
+
+        const a = segmentIndexOf(selection.anchorNode);
+        const b = segmentIndexOf(selection.focusNode);
+        if (a === null || b === null) return;
+
+        const first = segments[Math.min(a, b)];
+        const last = segments[Math.max(a, b)];
+        onSelectRange({ start: first.start, end: last.start + last.duration });
+    };
+
+    return (
+        <aside className="flex max-h-[80vh] flex-col overflow-hidden rounded-xl border border-[#303030] bg-[#212121] lg:sticky lg:top-6">
+            <div className="flex items-center gap-2 border-b border-[#303030] bg-[#181818] px-4 py-3">
+                <span className="text-sm text-[#aaaaaa]">Transcript</span>
+                <span className="text-xs text-[#717171]">{segments.length.toLocaleString()} lines</span>
+                <button
+                    onClick={onClose}
+                    aria-label="Close transcript"
+                    className="ml-auto rounded-full p-1 text-[#aaaaaa] hover:bg-[#272727] hover:text-white"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="border-b border-[#303030] px-4 py-3">
+                <div className="relative flex items-center">
+                    <Search className="pointer-events-none absolute left-3 h-4 w-4 text-[#717171]" />
+                    <input
+                        type="search"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search the transcript..."
+                        className="h-9 w-full rounded-full border border-[#303030] bg-[#121212] pl-9 pr-4 text-sm text-white outline-none placeholder:text-[#717171] focus-visible:border-[#3ea6ff]"
+                    />
+                </div>
+                <p className="mt-2 text-xs text-[#717171]">
+                    {query
+                        ? `${matching.size.toLocaleString()} matching line${matching.size === 1 ? "" : "s"}`
+                        : timed
+                            ? "Click a section to jump here; select text to find its steps."
+                            : "This transcript has no timings, so it can't be matched to sections."}
+                </p>
+            </div>
+
+            <div ref={listRef} onMouseUp={handleMouseUp} className="flex-1 space-y-1 overflow-y-auto px-4 py-3">
+                {segments.map((segment, i) => {
+                    // Searching narrows the list to matching lines
+                    if (query && !matching.has(i)) return null;
+                    const focused = focusRange !== null && overlaps(segment, focusRange);
+
+                    return (
+                        <p
+                            key={i}
+                            data-segment={i}
+                            className={`flex gap-3 rounded-md px-2 py-1 text-sm leading-relaxed ${
+                                focused ? "bg-[#263850] text-white" : "text-[#aaaaaa]"
+                            }`}
+                        >
+                            {timed && (
+                                <span className="w-12 shrink-0 select-none font-mono text-xs leading-6 text-[#717171]">
+                                    {formatTimestamp(segment.start)}
+                                </span>
+                            )}
+                            <span>{highlightMatches(segment.text, query)}</span>
+                        </p>
+                    );
+                })}
+            </div>
+        </aside>
+    );
+}
@@ -1,30 +1,130 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import { motion, AnimatePresence } from "framer-motion";
 import { CodeBlock } from "./CodeBlock";
-import { BookOpen, Sparkles, Download, ChevronDown, FileCode, FileText } from "lucide-react";
+import { TranscriptPanel } from "./TranscriptPanel";
+import { BookOpen, Sparkles, Download, ChevronDown, FileCode, FileText, PlayCircle, ScrollText } from "lucide-react";
+import type { TimeRange, TutorialAsset, TutorialDocument } from "@/app/lib/tutorialSchema";
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+import type { VideoMetadata } from "@/app/lib/videoMetadata";
+import { renderVideoHeader, sectionHeading, stepHeading, watchLabel, watchRangeLabel } from "@/app/lib/tutorialRenderer";
+import { getTutorialLabels } from "@/app/lib/tutorialLabels";
+import { watchUrl } from "@/app/lib/timestamps";
+import { getOutputLanguage } from "@/app/lib/generationOptions";
+
+// "Watch at" links from the renderer point at a timestamp in the video
+function isWatchLink(href: string | undefined): boolean {
+    return !!href && /youtube\.com\/watch\?v=[^&]+&t=\d+s$/.test(href);
+}
+
+function stripPlayGlyph(children: React.ReactNode): React.ReactNode {
+    return typeof children === "string" ? children.replace(/^▶\s*/, "") : children;
+}
+
+/** Plain text of rendered markdown children, to match headings back to the document */
+function textOf(children: React.ReactNode): string {
+    return React.Children.toArray(children)
+        .map(child => {
+            if (typeof child === "string" || typeof child === "number") return String(child);
+            return React.isValidElement<{ children?: React.ReactNode }>(child) ? textOf(child.props.children) : "";
+        })
+        .join("");
+}
+
+/** Heading text without inline markdown, the same whether read from the document or the rendered DOM */
+function headingKey(text: string): string {
+    return text.replace(/[`*_]/g, "").trim();
+}
+
+// jsPDF's built-in fonts (helvetica, courier) only encode WinAnsi: Latin-1 and
+// a handful of other letters. Any other letter (Cyrillic, Arabic, CJK...) comes
+// out garbled, and scripts that need shaping could not be drawn by jsPDF anyway.
+const NON_PDF_LETTER = /[^\P{L}\u0000-\u00ffŒœŠšŸŽžƒ]/u;
+
+function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+    return a.start <= b.end && b.start <= a.end;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+function base64ToBytes(data: string): Uint8Array {
+    return Uint8Array.from(atob(data), char => char.charCodeAt(0));
+}
 
 interface TutorialCardProps {
     content: string;
+    /** Typed tutorial the markdown was rendered from; the PDF export works from it when present */
+    document?: TutorialDocument;
+    /** Output language code; right-to-left languages flip the prose, never the code. The PDF's headings follow it */
+    language?: string;
+    /** Used for "Watch at" links in the PDF export */
+    videoId?: string;
+    /** Cleaned transcript the tutorial was written from, shown in the side panel */
+    transcript?: TranscriptSegment[];
+    /** Images the markdown references by relative path (step screenshots) */
+    assets?: TutorialAsset[];
+    /** Source video details, shown under the title in the PDF export */
+    video?: VideoMetadata | null;
 }
 
-export function TutorialCard({ content }: TutorialCardProps) {
+export function TutorialCard({ content, document: tutorialDocument, language, videoId, transcript, assets = [], video }: TutorialCardProps) {
     const [isExportOpen, setIsExportOpen] = useState(false);
     const [pdfGenerating, setPdfGenerating] = useState(false);
+    const [showTranscript, setShowTranscript] = useState(false);
+    // Section the reader clicked (scrolls the transcript) and transcript text they selected (marks steps)
+    const [focusRange, setFocusRange] = useState<TimeRange | null>(null);
+    const [selectedRange, setSelectedRange] = useState<TimeRange | null>(null);
+
+    const hasTranscript = !!transcript && transcript.length > 0;
+    // The markdown holds everything the PDF would: the content and the fixed labels around it
+    const pdfSupported = useMemo(() => !NON_PDF_LETTER.test(content), [content]);
+    const transcriptOpen = showTranscript && hasTranscript;
+
+    // Rendered headings -> video time they cover, to link the markdown view with the transcript
+    const headingTimes = useMemo(() => {
+        const times = new Map<string, TimeRange>();
+        tutorialDocument?.sections.forEach((section, i) => {
+            if (section.time) times.set(headingKey(sectionHeading(section, i + 1)), section.time);
+            section.steps.forEach((step, j) => {
+                if (step.time) times.set(headingKey(stepHeading(step, i + 1, j + 1, language)), step.time);
+            });
+        });
+        return times;
+    }, [tutorialDocument, language]);
+
+    // Asset path (as written in the markdown) -> data URL the browser and jsPDF can load
+    const assetUrls = useMemo(
+        () => new Map(assets.map(asset => [asset.path, `data:${asset.mimeType};base64,${asset.data}`])),
+        [assets]
+    );
 
-    const handleExportMarkdown = () => {
-        const blob = new Blob([content], { type: "text/markdown" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `tutorial-${new Date().toISOString().slice(0, 10)}.md`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const handleExportMarkdown = async () => {
+        const basename = `tutorial-${new Date().toISOString().slice(0, 10)}`;
         setIsExportOpen(false);
+
+        if (assets.length === 0) {
+            downloadBlob(new Blob([content], { type: "text/markdown" }), `${basename}.md`);
+            return;
+        }
+
+        // Images are referenced by relative path, so they ship in a zip next to the markdown
+        const { strToU8, zipSync } = await import("fflate");
+        const files: Record<string, Uint8Array> = { "tutorial.md": strToU8(content) };
+        for (const asset of assets) files[asset.path] = base64ToBytes(asset.data);
+
+        const zip = zipSync({ [basename]: files });
+        downloadBlob(new Blob([zip], { type: "application/zip" }), `${basename}.zip`);
     };
 
     const handleExportPDF = async () => {
@@ -66,11 +166,18 @@ export function TutorialCard({ content }: TutorialCardProps) {
                 }
             };
 
-            let inCodeBlock = false;
-            let codeBlockLanguage = "";
-            let codeBlockLines: string[] = [];
+            const renderImage = (dataUrl: string) => {
+                const { width, height } = doc.getImageProperties(dataUrl);
+                // Frames are small; printing them wider than this only shows the pixels
+                const imageWidth = Math.min(maxWidth, 120);
+                const imageHeight = (height / width) * imageWidth;
 
-            const renderCodeBlock = () => {
+                checkNewPage(imageHeight + 6);
+                doc.addImage(dataUrl, "JPEG", margin, y, imageWidth, imageHeight);
+                y += imageHeight + 6;
+            };
+
+            const renderCodeBlock = (codeBlockLanguage: string, codeBlockLines: string[], filename: string | null = null) => {
                 if (codeBlockLines.length === 0) return;
 
                 const codeMaxWidth = maxWidth - 16;
@@ -101,12 +208,13 @@ export function TutorialCard({ content }: TutorialCardProps) {
 
                 y += 4;
 
-                // Draw language label
-                if (codeBlockLanguage) {
+                // Draw language label (and file name when known)
+                if (codeBlockLanguage || filename) {
                     doc.setFontSize(8);
                     doc.setFont("helvetica", "bold");
                     doc.setTextColor(148, 163, 184); // slate-400
-                    doc.text(codeBlockLanguage.toUpperCase(), margin + 10, y + 4);
+                    const label = [codeBlockLanguage.toUpperCase(), filename].filter(Boolean).join("  -  ");
+                    doc.text(label, margin + 10, y + 4);
                     y += 10;
                 } else {
                     y += 6;
@@ -127,7 +235,6 @@ export function TutorialCard({ content }: TutorialCardProps) {
 
                 y = startY + codeHeight + 8; // Move past the code block with spacing
                 doc.setTextColor(0, 0, 0);
-                codeBlockLines = [];
             };
 
             // Helper to render text with inline code styling
@@ -226,162 +333,237 @@ export function TutorialCard({ content }: TutorialCardProps) {
             };
 
 
-            const lines = content.split('\n');
-            let listIndentLevel = 0;
+            // Render markdown line by line (free text, or the whole tutorial without a document)
+            const renderMarkdown = (markdown: string) => {
+                let inCodeBlock = false;
+                let codeBlockLanguage = "";
+                let codeBlockLines: string[] = [];
 
-            for (let i = 0; i < lines.length; i++) {
-                // Trim carriage returns that might be left from Windows line endings
-                const line = lines[i].replace(/\r$/, '');
-
-                // Check if we need a new page
-                if (!inCodeBlock) {
-                    checkNewPage(10);
-                }
+                const lines = markdown.split('\n');
+                let listIndentLevel = 0;
 
-                // Handle code block markers - check for ``` at start (with possible language)
-                const isCodeBlockMarker = line.trim().startsWith('```');
+                for (let i = 0; i < lines.length; i++) {
+                    // Trim carriage returns that might be left from Windows line endings
+                    const line = lines[i].replace(/\r$/, '');
 
-                if (isCodeBlockMarker) {
+                    // Check if we need a new page
                     if (!inCodeBlock) {
-                        inCodeBlock = true;
-                        codeBlockLanguage = line.trim().replace(/^```/, '').trim();
-                        codeBlockLines = [];
-                    } else {
-                        inCodeBlock = false;
-                        renderCodeBlock();
-                        codeBlockLanguage = "";
+                        checkNewPage(10);
                     }
-                    continue;
-                }
 
-                if (inCodeBlock) {
-                    codeBlockLines.push(line);
-                    continue;
-                }
+                    // Handle code block markers - check for ``` at start (with possible language)
+                    const isCodeBlockMarker = line.trim().startsWith('```');
 
-                // Handle headings
-                if (line.startsWith('# ')) {
-                    y += 8;
-                    checkNewPage(16);
-                    doc.setFontSize(22);
-                    doc.setFont("helvetica", "bold");
-                    doc.setTextColor(20, 25, 35);
-                    const text = stripMarkdown(line.replace('# ', ''));
-                    const splitText = doc.splitTextToSize(text, maxWidth);
-                    for (const textLine of splitText) {
-                        doc.text(textLine, margin, y);
-                        y += 9;
+                    if (isCodeBlockMarker) {
+                        if (!inCodeBlock) {
+                            inCodeBlock = true;
+                            codeBlockLanguage = line.trim().replace(/^```/, '').trim();
+                            codeBlockLines = [];
+                        } else {
+                            inCodeBlock = false;
+                            renderCodeBlock(codeBlockLanguage, codeBlockLines);
+                            codeBlockLanguage = "";
+                        }
+                        continue;
                     }
-                    // Underline
-                    doc.setDrawColor(56, 189, 248);
-                    doc.setLineWidth(0.8);
-                    doc.line(margin, y, margin + 40, y);
-                    doc.setLineWidth(0.2);
-                    y += 6;
-                } else if (line.startsWith('## ')) {
-                    y += 6;
-                    checkNewPage(12);
-                    doc.setFontSize(16);
-                    doc.setFont("helvetica", "bold");
-                    doc.setTextColor(30, 40, 55);
-                    const text = stripMarkdown(line.replace('## ', ''));
-                    const splitText = doc.splitTextToSize(text, maxWidth);
-                    for (const textLine of splitText) {
-                        doc.text(textLine, margin, y);
-                        y += 7;
+
+                    if (inCodeBlock) {
+                        codeBlockLines.push(line);
+                        continue;
                     }
-                    y += 3;
-                } else if (line.startsWith('### ')) {
-                    y += 4;
-                    checkNewPage(10);
-                    doc.setFontSize(13);
-                    doc.setFont("helvetica", "bold");
-                    doc.setTextColor(50, 60, 75);
-                    const text = stripMarkdown(line.replace('### ', ''));
-                    const splitText = doc.splitTextToSize(text, maxWidth);
-                    for (const textLine of splitText) {
-                        doc.text(textLine, margin, y);
+
+                    // Handle headings
+                    if (line.startsWith('# ')) {
+                        y += 8;
+                        checkNewPage(16);
+                        doc.setFontSize(22);
+                        doc.setFont("helvetica", "bold");
+                        doc.setTextColor(20, 25, 35);
+                        const text = stripMarkdown(line.replace('# ', ''));
+                        const splitText = doc.splitTextToSize(text, maxWidth);
+                        for (const textLine of splitText) {
+                            doc.text(textLine, margin, y);
+                            y += 9;
+                        }
+                        // Underline
+                        doc.setDrawColor(56, 189, 248);
+                        doc.setLineWidth(0.8);
+                        doc.line(margin, y, margin + 40, y);
+                        doc.setLineWidth(0.2);
                         y += 6;
-                    }
-                    y += 2;
-                } else if (line.startsWith('#### ')) {
-                    y += 3;
-                    checkNewPage(8);
-                    doc.setFontSize(11);
-                    doc.setFont("helvetica", "bold");
-                    doc.setTextColor(60, 70, 85);
-                    const text = stripMarkdown(line.replace('#### ', ''));
-                    doc.text(text, margin, y);
-                    y += 6;
-                } else if (line.trim() === '') {
-                    y += 4;
-                } else if (/^\d+\.\s/.test(line)) {
-                    // Numbered list
-                    const match = line.match(/^(\d+)\.\s(.*)$/);
-                    if (match) {
-                        doc.setFontSize(10);
+                    } else if (line.startsWith('## ')) {
+                        y += 6;
+                        checkNewPage(12);
+                        doc.setFontSize(16);
+                        doc.setFont("helvetica", "bold");
+                        doc.setTextColor(30, 40, 55);
+                        const text = stripMarkdown(line.replace('## ', ''));
+                        const splitText = doc.splitTextToSize(text, maxWidth);
+                        for (const textLine of splitText) {
+                            doc.text(textLine, margin, y);
+                            y += 7;
+                        }
+                        y += 3;
+                    } else if (line.startsWith('### ')) {
+                        y += 4;
+                        checkNewPage(10);
+                        doc.setFontSize(13);
                         doc.setFont("helvetica", "bold");
+                        doc.setTextColor(50, 60, 75);
+                        const text = stripMarkdown(line.replace('### ', ''));
+                        const splitText = doc.splitTextToSize(text, maxWidth);
+                        for (const textLine of splitText) {
+                            doc.text(textLine, margin, y);
+                            y += 6;
+                        }
+                        y += 2;
+                    } else if (line.startsWith('#### ')) {
+                        y += 3;
+                        checkNewPage(8);
+                        doc.setFontSize(11);
+                        doc.setFont("helvetica", "bold");
+                        doc.setTextColor(60, 70, 85);
+                        const text = stripMarkdown(line.replace('#### ', ''));
+                        doc.text(text, margin, y);
+                        y += 6;
+                    } else if (line.trim() === '') {
+                        y += 4;
+                    } else if (/^\d+\.\s/.test(line)) {
+                        // Numbered list
+                        const match = line.match(/^(\d+)\.\s(.*)$/);
+                        if (match) {
+                            doc.setFontSize(10);
+                            doc.setFont("helvetica", "bold");
+                            doc.setTextColor(56, 189, 248);
+                            doc.text(match[1] + ".", margin, y);
+
+                            // Render list content with inline code support
+                            const startY = y;
+                            renderTextWithInlineCode(match[2], margin + 10, 10, [50, 55, 65], maxWidth - 12);
+                            if (y === startY) y += 5; // Ensure some movement if no content
+                            y += 1;
+                        }
+                    } else if (line.match(/^(\s*)[-*]\s/)) {
+                        // Bullet points with indentation support
+                        const indentMatch = line.match(/^(\s*)/);
+                        const indent = indentMatch ? Math.floor(indentMatch[1].length / 2) : 0;
+                        const bulletX = margin + (indent * 6);
+
+                        doc.setFontSize(10);
                         doc.setTextColor(56, 189, 248);
-                        doc.text(match[1] + ".", margin, y);
+                        doc.text("•", bulletX, y);
 
-                        // Render list content with inline code support
+                        // Render bullet content with inline code support
+                        const bulletContent = line.replace(/^\s*[-*]\s/, '');
                         const startY = y;
-                        renderTextWithInlineCode(match[2], margin + 10, 10, [50, 55, 65], maxWidth - 12);
-                        if (y === startY) y += 5; // Ensure some movement if no content
+                        renderTextWithInlineCode(bulletContent, bulletX + 6, 10, [50, 55, 65], maxWidth - 12 - (indent * 6));
+                        if (y === startY) y += 5;
                         y += 1;
-                    }
-                } else if (line.match(/^(\s*)[-*]\s/)) {
-                    // Bullet points with indentation support
-                    const indentMatch = line.match(/^(\s*)/);
-                    const indent = indentMatch ? Math.floor(indentMatch[1].length / 2) : 0;
-                    const bulletX = margin + (indent * 6);
-
-                    doc.setFontSize(10);
-                    doc.setTextColor(56, 189, 248);
-                    doc.text("•", bulletX, y);
-
-                    // Render bullet content with inline code support
-                    const bulletContent = line.replace(/^\s*[-*]\s/, '');
-                    const startY = y;
-                    renderTextWithInlineCode(bulletContent, bulletX + 6, 10, [50, 55, 65], maxWidth - 12 - (indent * 6));
-                    if (y === startY) y += 5;
-                    y += 1;
-                } else if (line.startsWith('>')) {
-                    // Blockquote
-                    checkNewPage(12);
-                    const quoteText = stripMarkdown(line.replace(/^>\s*/, ''));
-                    const splitText = doc.splitTextToSize(quoteText, maxWidth - 16);
-
-                    const quoteHeight = splitText.length * 5 + 6;
-
-                    // Draw left border
-                    doc.setFillColor(167, 139, 250); // purple-400
-                    doc.rect(margin, y - 3, 3, quoteHeight, 'F');
-
-                    // Draw background
-                    doc.setFillColor(245, 243, 255); // purple-50
-                    doc.rect(margin + 3, y - 3, maxWidth - 3, quoteHeight, 'F');
-
-                    doc.setFontSize(10);
-                    doc.setFont("helvetica", "italic");
-                    doc.setTextColor(100, 90, 120);
-                    for (const textLine of splitText) {
-                        doc.text(textLine, margin + 10, y);
-                        y += 5;
-                    }
-                    y += 4;
-                } else {
-                    // Regular paragraph text with inline code support
-                    if (line.trim()) {
-                        renderTextWithInlineCode(line, margin, 10, [45, 50, 60], maxWidth);
-                        y += 2;
+                    } else if (line.startsWith('>')) {
+                        // Blockquote
+                        checkNewPage(12);
+                        const quoteText = stripMarkdown(line.replace(/^>\s*/, ''));
+                        const splitText = doc.splitTextToSize(quoteText, maxWidth - 16);
+
+                        const quoteHeight = splitText.length * 5 + 6;
+
+                        // Draw left border
+                        doc.setFillColor(167, 139, 250); // purple-400
+                        doc.rect(margin, y - 3, 3, quoteHeight, 'F');
+
+                        // Draw background
+                        doc.setFillColor(245, 243, 255); // purple-50
+                        doc.rect(margin + 3, y - 3, maxWidth - 3, quoteHeight, 'F');
+
+                        doc.setFontSize(10);
+                        doc.setFont("helvetica", "italic");
+                        doc.setTextColor(100, 90, 120);
+                        for (const textLine of splitText) {
+                            doc.text(textLine, margin + 10, y);
+                            y += 5;
+                        }
+                        y += 4;
+                    } else {
+                        // Regular paragraph text with inline code support
+                        if (line.trim()) {
+                            renderTextWithInlineCode(line, margin, 10, [45, 50, 60], maxWidth);
+                            y += 2;
+                        }
                     }
                 }
-            }
 
-            // Handle any remaining code block
-            if (inCodeBlock && codeBlockLines.length > 0) {
-                renderCodeBlock();
+                // Handle any remaining code block
+                if (inCodeBlock && codeBlockLines.length > 0) {
+                    renderCodeBlock(codeBlockLanguage, codeBlockLines);
+                }
+            };
+
+            // Render the typed tutorial: structure and code come straight from the model,
+            // only free-text fields go through the markdown renderer
+            // Clickable "Watch at 12:34" line under a heading
+            const renderWatchLink = (label: string, seconds: number) => {
+                if (!videoId) return;
+                checkNewPage(8);
+                doc.setFontSize(9);
+                doc.setFont("helvetica", "bold");
+                doc.setTextColor(204, 0, 0);
+                doc.textWithLink(label, margin, y, { url: watchUrl(videoId, seconds) });
+                doc.setTextColor(0, 0, 0);
+                y += 7;
+            };
+
+            const renderDocument = (tutorial: TutorialDocument) => {
+                const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+                const labels = getTutorialLabels(language);
+
+                renderMarkdown(`# ${tutorial.title}`);
+                if (video) {
+                    // One quote box per header line
+                    renderVideoHeader(video, language).split('\n>\n').forEach(renderMarkdown);
+                }
+                if (tutorial.overview) {
+                    renderMarkdown(`## ${labels.overview}\n\n${tutorial.overview}`);
+                }
+                if (tutorial.prerequisites.length > 0) {
+                    renderMarkdown(`## ${labels.prerequisites}\n\n${bullets(tutorial.prerequisites)}`);
+                }
+                if (tutorial.sections.length > 0) {
+                    renderMarkdown(`## ${labels.tableOfContents}\n\n${bullets(tutorial.sections.map((section, i) => sectionHeading(section, i + 1)))}`);
+                }
+
+                tutorial.sections.forEach((section, sectionIndex) => {
+                    renderMarkdown(`## ${sectionHeading(section, sectionIndex + 1)}`);
+                    if (section.time) renderWatchLink(watchRangeLabel(section.time, language), section.time.start);
+                    if (section.description) renderMarkdown(section.description);
+
+                    section.steps.forEach((step, stepIndex) => {
+                        renderMarkdown(`### ${stepHeading(step, sectionIndex + 1, stepIndex + 1, language)}`);
+                        if (step.time) renderWatchLink(watchLabel(step.time, language), step.time.start);
+                        if (step.explanation) renderMarkdown(step.explanation);
+                        const screenshotUrl = step.screenshot && assetUrls.get(step.screenshot.src);
+                        if (screenshotUrl) renderImage(screenshotUrl);
+                        for (const block of step.codeBlocks) {
+                            renderCodeBlock(block.language, block.code.split('\n'), block.filename);
+                            if (block.verified) renderMarkdown(`_${labels.verifiedCode}_`);
+                        }
+                        for (const note of step.notes) {
+                            renderMarkdown(`> ${note}`);
+                        }
+                    });
+                });
+
+                if (tutorial.summary.length > 0) {
+                    renderMarkdown(`## ${labels.summary}\n\n${bullets(tutorial.summary)}`);
+                }
+                if (tutorial.nextSteps.length > 0) {
+                    renderMarkdown(`## ${labels.nextSteps}\n\n${bullets(tutorial.nextSteps)}`);
+                }
+            };
+
+            if (tutorialDocument) {
+                renderDocument(tutorialDocument);
+            } else {
+                renderMarkdown(content);
             }
 
             doc.save(`tutorial-${new Date().toISOString().slice(0, 10)}.pdf`);
@@ -398,7 +580,7 @@ export function TutorialCard({ content }: TutorialCardProps) {
             initial={{ opacity: 0, y: 30 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, ease: "easeOut" }}
-            className="w-full max-w-4xl mx-auto"
+            className={`w-full mx-auto ${transcriptOpen ? "max-w-6xl" : "max-w-4xl"}`}
         >
             {/* Header */}
             <div className="mb-6 flex items-center gap-3">
@@ -411,6 +593,21 @@ export function TutorialCard({ content }: TutorialCardProps) {
                 </div>
 
                 <div className="ml-auto flex items-center gap-3">
+                    {hasTranscript && (
+                        <button
+                            onClick={() => setShowTranscript(!showTranscript)}
+                            aria-pressed={showTranscript}
+                            className={`flex items-center gap-2 rounded-full px-4 py-2 text-sm transition-colors ${
+                                showTranscript
+                                    ? "bg-[#263850] text-white"
+                                    : "bg-[#272727] text-[#aaaaaa] hover:bg-[#3f3f3f] hover:text-white"
+                            }`}
+                        >
+                            <ScrollText className="h-4 w-4" />
+                            <span>Transcript</span>
+                        </button>
+                    )}
+
                     <div className="flex items-center gap-1.5 rounded-full bg-[#272727] px-3 py-1">
                         <Sparkles className="h-3.5 w-3.5 text-[#ff0000]" />
                         <span className="text-xs font-medium text-[#aaaaaa]">AI Generated</span>
@@ -434,7 +631,7 @@ export function TutorialCard({ content }: TutorialCardProps) {
                                     initial={{ opacity: 0, y: 10, scale: 0.95 }}
                                     animate={{ opacity: 1, y: 0, scale: 1 }}
                                     exit={{ opacity: 0, y: 10, scale: 0.95 }}
-                                    className="absolute right-0 top-full z-50 mt-2 w-48 overflow-hidden rounded-xl bg-[#212121] p-1 shadow-xl border border-[#303030]"
+                                    className="absolute right-0 top-full z-50 mt-2 w-56 overflow-hidden rounded-xl bg-[#212121] p-1 shadow-xl border border-[#303030]"
                                 >
                                     <div className="px-2 py-1.5 text-xs font-medium text-[#717171] uppercase tracking-wider">
                                         Download As
@@ -444,15 +641,23 @@ export function TutorialCard({ content }: TutorialCardProps) {
                                         className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-sm text-[#aaaaaa] hover:bg-[#272727] hover:text-white transition-colors text-left"
                                     >
                                         <FileCode className="h-4 w-4 text-[#3ea6ff]" />
-                                        Markdown (.md)
+                                        {assets.length > 0 ? "Markdown + images (.zip)" : "Markdown (.md)"}
                                     </button>
                                     <div className="my-1 h-px bg-[#303030]" />
                                     <button
                                         onClick={handleExportPDF}
-                                        className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-sm text-[#aaaaaa] hover:bg-[#272727] hover:text-white transition-colors text-left"
+                                        disabled={!pdfSupported}
+                                        className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-sm text-[#aaaaaa] hover:bg-[#272727] hover:text-white transition-colors text-left disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-[#aaaaaa]"
                                     >
-                                        <FileText className="h-4 w-4 text-[#ff0000]" />
-                                        PDF Document
+                                        <FileText className="h-4 w-4 shrink-0 text-[#ff0000]" />
+                                        <span>
+                                            PDF Document
+                                            {!pdfSupported && (
+                                                <span className="block text-xs text-[#717171]">
+                                                    Latin script only, use Markdown for this tutorial
+                                                </span>
+                                            )}
+                                        </span>
                                     </button>
                                 </motion.div>
                             )}
@@ -461,6 +666,7 @@ export function TutorialCard({ content }: TutorialCardProps) {
                 </div>
             </div>
 
+            <div className={transcriptOpen ? "grid items-start gap-6 lg:grid-cols-[minmax(0,1fr)_22rem]" : undefined}>
             {/* Content Card */}
             <div className="overflow-hidden rounded-xl bg-[#212121] border border-[#303030]">
                 <div className="border-b border-[#303030] bg-[#181818] px-6 py-4">
@@ -470,7 +676,11 @@ export function TutorialCard({ content }: TutorialCardProps) {
                     </div>
                 </div>
 
-                <div id="tutorial-content" className="prose prose-invert max-w-none px-6 py-8">
+                <div
+                    id="tutorial-content"
+                    dir={language && getOutputLanguage(language)?.rtl ? "rtl" : undefined}
+                    className="prose prose-invert max-w-none px-6 py-8"
+                >
                     <ReactMarkdown
                         components={{
                             h1: ({ children }) => (
@@ -478,26 +688,41 @@ export function TutorialCard({ content }: TutorialCardProps) {
                                     {children}
                                 </h1>
                             ),
-                            h2: ({ children }) => (
-                                <h2 className="mb-4 mt-8 text-2xl font-semibold text-white">
-                                    {children}
-                                </h2>
-                            ),
-                            h3: ({ children }) => (
-                                <h3 className="mb-3 mt-6 text-xl font-medium text-[#f1f1f1]">
-                                    {children}
-                                </h3>
-                            ),
+                            h2: ({ children }) => {
+                                const time = transcriptOpen ? headingTimes.get(headingKey(textOf(children))) : undefined;
+                                return (
+                                    <h2
+                                        onClick={time ? () => setFocusRange(time) : undefined}
+                                        title={time ? "Show in transcript" : undefined}
+                                        className={`mb-4 mt-8 text-2xl font-semibold text-white ${time ? "cursor-pointer hover:text-[#3ea6ff]" : ""}`}
+                                    >
+                                        {children}
+                                    </h2>
+                                );
+                            },
+                            h3: ({ children }) => {
+                                const time = headingTimes.get(headingKey(textOf(children)));
+                                const fromSelection = transcriptOpen && !!selectedRange && !!time && rangesOverlap(time, selectedRange);
+                                return (
+                                    <h3
+                                        className={`mb-3 mt-6 text-xl font-medium text-[#f1f1f1] ${
+                                            fromSelection ? "-mx-2 rounded-md bg-[#263850] px-2 py-1 ring-1 ring-[#3ea6ff]" : ""
+                                        }`}
+                                    >
+                                        {children}
+                                    </h3>
+                                );
+                            },
                             p: ({ children }) => (
                                 <p className="mb-4 leading-relaxed text-[#aaaaaa]">{children}</p>
                             ),
                             ul: ({ children }) => (
-                                <ul className="mb-4 list-disc space-y-2 pl-6 text-[#aaaaaa]">
+                                <ul className="mb-4 list-disc space-y-2 ps-6 text-[#aaaaaa]">
                                     {children}
                                 </ul>
                             ),
                             ol: ({ children }) => (
-                                <ol className="mb-4 list-decimal space-y-2 pl-6 text-[#aaaaaa]">
+                                <ol className="mb-4 list-decimal space-y-2 ps-6 text-[#aaaaaa]">
                                     {children}
                                 </ol>
                             ),
@@ -512,6 +737,7 @@ export function TutorialCard({ content }: TutorialCardProps) {
                                 if (isInline) {
                                     return (
                                         <code
+                                            dir="ltr"
                                             className="rounded bg-[#272727] px-1.5 py-0.5 font-mono text-sm text-[#3ea6ff]"
                                             {...props}
                                         >
@@ -521,14 +747,26 @@ export function TutorialCard({ content }: TutorialCardProps) {
                                 }
 
                                 return (
-                                    <CodeBlock code={codeString} language={match?.[1] || "plaintext"} />
+                                    <div dir="ltr">
+                                        <CodeBlock code={codeString} language={match?.[1] || "plaintext"} />
+                                    </div>
                                 );
                             },
                             pre: ({ children }) => <>{children}</>,
                             strong: ({ children }) => (
                                 <strong className="font-semibold text-white">{children}</strong>
                             ),
-                            a: ({ href, children }) => (
+                            a: ({ href, children }) => isWatchLink(href) ? (
+                                <a
+                                    href={href}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="not-prose -mt-2 mb-4 inline-flex items-center gap-1.5 rounded-full bg-[#272727] px-3 py-1 text-xs font-medium text-[#f1f1f1] no-underline transition-colors hover:bg-[#3f3f3f]"
+                                >
+                                    <PlayCircle className="h-3.5 w-3.5 text-[#ff0000]" />
+                                    {stripPlayGlyph(children)}
+                                </a>
+                            ) : (
                                 <a
                                     href={href}
                                     target="_blank"
@@ -539,17 +777,38 @@ export function TutorialCard({ content }: TutorialCardProps) {
                                 </a>
                             ),
                             blockquote: ({ children }) => (
-                                <blockquote className="border-l-4 border-[#ff0000] bg-[#1a1a1a] py-2 pl-4 italic text-[#aaaaaa]">
+                                <blockquote className="border-s-4 border-[#ff0000] bg-[#1a1a1a] py-2 ps-4 italic text-[#aaaaaa]">
                                     {children}
                                 </blockquote>
                             ),
                             hr: () => <hr className="my-8 border-[#303030]" />,
+                            img: ({ src, alt }) => {
+                                const url = typeof src === "string" ? assetUrls.get(src) : undefined;
+                                return url ? (
+                                    <img
+                                        src={url}
+                                        alt={alt ?? ""}
+                                        loading="lazy"
+                                        className="my-2 w-full max-w-2xl rounded-lg border border-[#303030]"
+                                    />
+                                ) : null;
+                            },
                         }}
                     >
                         {content}
                     </ReactMarkdown>
                 </div>
             </div>
+
+            {transcriptOpen && (
+                <TranscriptPanel
+                    segments={transcript}
+                    focusRange={focusRange}
+                    onSelectRange={setSelectedRange}
+                    onClose={() => setShowTranscript(false)}
+                />
+            )}
+            </div>
         </motion.div>
     );
 }
@@ -0,0 +1,210 @@
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+import { segmentsFromText } from "@/app/lib/chunkingUtils";
+
+// Parsers for caption files, all producing TranscriptSegment[] timed in
+// seconds. Used for tracks downloaded from YouTube and for transcripts the
+// user uploads or pastes instead of fetching them.
+
+export type CaptionFormat = "srt" | "vtt" | "sbv" | "json3" | "text";
+
+export const CAPTION_FORMATS: CaptionFormat[] = ["srt", "vtt", "sbv", "json3", "text"];
+
+// Uploads larger than this are rejected before parsing
+export const MAX_TRANSCRIPT_CHARS = 2_000_000;
+
+const EXTENSION_FORMATS: Record<string, CaptionFormat> = {
+    srt: "srt",
+    vtt: "vtt",
+    sbv: "sbv",
+    json: "json3",
+    json3: "json3",
+    txt: "text",
+};
+
+// 01:02:03,456 / 1:02:03.456 / 02:03.456 (hours are optional in WebVTT)
+const CUE_TIME = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/;
+const SBV_TIMING = /^\s*(\d+:\d{2}:\d{2}\.\d{1,3}),(\d+:\d{2}:\d{2}\.\d{1,3})\s*$/;
+
+interface Json3Event {
+    tStartMs?: number;
+    dDurationMs?: number;
+    segs?: { utf8?: string }[];
+}
+
+function parseCueTime(value: string): number | null {
+    const match = value.trim().match(CUE_TIME);
+    if (!match) return null;
+
+    const [, hours, minutes, seconds, fraction] = match;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, "0")) / 1000;
+}
+
+/**
+ * Strip inline markup cues carry: HTML-like tags (`<i>`, `<c.color>`,
+ * `<00:00:01.000>` karaoke timings) and SSA position codes (`{\an8}`)
+ */
+function cueText(lines: string[]): string {
+    return lines
+        .join(" ")
+        .replace(/<[^>]*>/g, "")
+        .replace(/\{\\[^}]*\}/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function cueBlocks(source: string): string[][] {
+    return source
+        .replace(/^\uFEFF/, "")
+        .replace(/\r\n?/g, "\n")
+        .split(/\n{2,}/)
+        .map(block => block.split("\n").filter(line => line.trim() !== ""))
+        .filter(lines => lines.length > 0);
+}
+
+/**
+ * Read `start --> end` cues (SRT and WebVTT share this shape). Lines before
+ * the timing line are cue identifiers and are ignored.
+ */
+function parseArrowCues(blocks: string[][]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const lines of blocks) {
+        const timingIndex = lines.findIndex(line => line.includes("-->"));
+        if (timingIndex === -1) continue;
+
+        const [from, rest] = lines[timingIndex].split("-->");
+        // WebVTT cue settings ("align:start position:0%") follow the end time
+        const start = parseCueTime(from);
+        const end = parseCueTime(rest.trim().split(/\s+/)[0]);
+        if (start === null || end === null) continue;
+
+        const text = cueText(lines.slice(timingIndex + 1));
+        if (text) segments.push({ text, start, duration: Math.max(0, end - start) });
+    }
+
+    return segments;
+}
+
+/**
+ * Parse SubRip (`.srt`): numbered cues with `00:00:01,000 --> 00:00:04,000`
+ */
+export function parseSrt(source: string): TranscriptSegment[] {
+    return parseArrowCues(cueBlocks(source));
+}
+
+/**
+ * Parse WebVTT (`.vtt`). The header and NOTE, STYLE and REGION blocks are
+ * skipped; cue settings and inline tags are dropped.
+ */
+export function parseVtt(source: string): TranscriptSegment[] {
+    const blocks = cueBlocks(source).filter(lines => !/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0]));
+    return parseArrowCues(blocks);
+}
+
+/**
+ * Parse YouTube's SubViewer format (`.sbv`): `0:00:01.000,0:00:04.000`
+ * followed by the caption lines
+ */
+export function parseSbv(source: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const lines of cueBlocks(source)) {
+        const match = lines[0].match(SBV_TIMING);
+        if (!match) continue;
+
+        const start = parseCueTime(match[1]);
+        const end = parseCueTime(match[2]);
+        const text = cueText(lines.slice(1));
+        if (start !== null && end !== null && text) {
+            segments.push({ text, start, duration: Math.max(0, end - start) });
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Parse YouTube's JSON3 caption format (`fmt=json3`): one event per caption
+ * line with `tStartMs`/`dDurationMs` and the text split into `segs`
+ */
+export function parseJson3(data: unknown): TranscriptSegment[] {
+    const events = (data as { events?: Json3Event[] } | null)?.events;
+    if (!Array.isArray(events)) {
+        throw new Error("Not a JSON3 caption file: missing \"events\"");
+    }
+
+    const segments: TranscriptSegment[] = [];
+    for (const event of events) {
+        // Uploaded files are not always well-formed: anything that is not an event is skipped
+        if (!event || typeof event !== "object" || !Array.isArray(event.segs)) continue;
+
+        const text = event.segs.map(seg => typeof seg?.utf8 === "string" ? seg.utf8 : "").join("").replace(/\s+/g, " ").trim();
+        if (!text) continue;
+
+        segments.push({
+            text,
+            start: (Number(event.tStartMs) || 0) / 1000,
+            duration: (Number(event.dDurationMs) || 0) / 1000,
+        });
+    }
+    return segments;
+}
+
+/**
+ * Guess the format from the file extension, or from the content when there
+ * is no (known) extension. Anything unrecognised is plain text.
+ */
+export function detectCaptionFormat(source: string, filename?: string): CaptionFormat {
+    const extension = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+    if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+    const head = source.replace(/^\uFEFF/, "").trimStart();
+    if (head.startsWith("WEBVTT")) return "vtt";
+    if (head.startsWith("{") && head.includes("\"events\"")) return "json3";
+    if (/^\d+:\d{2}:\d{2},\d{3}\s*-->/m.test(head)) return "srt";
+    if (SBV_TIMING.test(head.split("\n")[0])) return "sbv";
+    return "text";
+}
+
+/**
+ * Parse an uploaded or pasted transcript. Timed formats keep their cue
+ * timings; plain text is split into untimed segments. Throws when the
+ * content is not valid for the format or holds no captions.
+ */
+export function parseTranscriptFile(
+    source: string,
+    { format, filename }: { format?: CaptionFormat; filename?: string } = {}
+): { format: CaptionFormat; segments: TranscriptSegment[] } {
+    const resolved = format ?? detectCaptionFormat(source, filename);
+    let segments: TranscriptSegment[];
+
+    switch (resolved) {
+        case "srt":
+            segments = parseSrt(source);
+            break;
+        case "vtt":
+            segments = parseVtt(source);
+            break;
+        case "sbv":
+            segments = parseSbv(source);
+            break;
+        case "json3": {
+            let data: unknown;
+            try {
+                data = JSON.parse(source);
+            } catch {
+                throw new Error("JSON3 caption file is not valid JSON");
+            }
+            segments = parseJson3(data);
+            break;
+        }
+        case "text":
+            segments = segmentsFromText(source.replace(/\s+/g, " ").trim());
+            break;
+    }
+
+    if (segments.length === 0) {
+        throw new Error(`No captions found in the ${resolved === "text" ? "pasted text" : `${resolved.toUpperCase()} file`}`);
+    }
+    return { format: resolved, segments };
+}
@@ -0,0 +1,98 @@
+import { Innertube } from "youtubei.js";
+import { parseJson3 } from "@/app/lib/captionFormats";
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+
+export type CaptionKind = "manual" | "asr";
+
+/** A caption track as listed to the client */
+export interface CaptionTrackSummary {
+    /** YouTube's vss_id, e.g. ".en" (manual) or "a.en" (auto-generated) */
+    id: string;
+    languageCode: string;
+    name: string;
+    kind: CaptionKind;
+    isTranslatable: boolean;
+}
+
+export interface CaptionTrack extends CaptionTrackSummary {
+    baseUrl: string;
+}
+
+export interface CaptionPreference {
+    /** Exact track id to use */
+    trackId?: string;
+    /** Preferred language code when no track id is given */
+    languageCode?: string;
+}
+
+type VideoInfo = Awaited<ReturnType<Innertube["getInfo"]>>;
+
+/**
+ * Caption tracks from a youtubei.js video info, manual tracks first
+ */
+export function tracksFromInfo(info: VideoInfo): CaptionTrack[] {
+    const tracks = (info.captions?.caption_tracks ?? []).map(track => ({
+        id: track.vss_id,
+        languageCode: track.language_code,
+        name: track.name.toString(),
+        kind: track.kind === "asr" ? "asr" as const : "manual" as const,
+        isTranslatable: track.is_translatable,
+        baseUrl: track.base_url,
+    }));
+
+    return tracks.sort((a, b) => Number(a.kind === "asr") - Number(b.kind === "asr"));
+}
+
+export async function listCaptionTracks(videoId: string): Promise<CaptionTrack[]> {
+    const youtube = await Innertube.create();
+    const info = await youtube.getInfo(videoId);
+    return tracksFromInfo(info);
+}
+
+/**
+ * Pick the track to transcribe from. An explicit id wins; otherwise a
+ * manually authored track beats an auto-generated one in the same language.
+ * Without a language preference the spoken language is used, which is the
+ * language of the auto-generated (ASR) track when there is one.
+ */
+export function pickCaptionTrack<T extends CaptionTrackSummary>(
+    tracks: T[],
+    preference: CaptionPreference = {}
+): T | null {
+    if (preference.trackId) {
+        return tracks.find(track => track.id === preference.trackId) ?? null;
+    }
+
+    const spoken = tracks.find(track => track.kind === "asr")?.languageCode;
+    const languages = [preference.languageCode, spoken].filter((code): code is string => !!code);
+    const sameLanguage = (track: T, code: string) =>
+        track.languageCode === code || track.languageCode.split("-")[0] === code.split("-")[0];
+
+    for (const code of languages) {
+        const manual = tracks.find(track => track.kind === "manual" && sameLanguage(track, code));
+        if (manual) return manual;
+        const asr = tracks.find(track => track.kind === "asr" && sameLanguage(track, code));
+        if (asr) return asr;
+    }
+
+    return tracks.find(track => track.kind === "manual") ?? tracks[0] ?? null;
+}
+
+/**
+ * Download one track's captions with their timings
+ */
+export async function fetchCaptionTrack(track: CaptionTrack): Promise<TranscriptSegment[]> {
+    const url = new URL(track.baseUrl);
+    url.searchParams.set("fmt", "json3");
+
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Caption track ${track.id} returned ${response.status}`);
+    }
+    return parseJson3(await response.json());
+}
+
+export function summarizeTrack(track: CaptionTrackSummary): CaptionTrackSummary {
+    const { id, languageCode, name, kind, isTranslatable } = track;
+    return { id, languageCode, name, kind, isTranslatable };
+}
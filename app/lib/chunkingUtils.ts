@@ -0,0 +1,347 @@
+import type { TranscriptChapter, TranscriptSegment } from "@/app/lib/transcriptUtils";
+import { getModelLimits, type ModelTarget } from "@/app/lib/llmProviders";
+import { formatTimestamp } from "@/app/lib/timestamps";
+
+export interface TranscriptChunk {
+    text: string;
+    /** Index of the first segment in the chunk (inclusive) */
+    startSegment: number;
+    /** Index of the last segment in the chunk (exclusive) */
+    endSegment: number;
+    /** Video time range covered, in seconds */
+    start: number;
+    end: number;
+    tokens: number;
+}
+
+export interface ChunkOptions {
+    tokenBudget: number;
+    chapters?: TranscriptChapter[];
+    overlapTokens?: number;
+    /**
+     * Only cut between chapters (packing short ones together) instead of
+     * treating chapter starts as preferred cuts. Chapters longer than the
+     * budget are still split inside.
+     */
+    splitAtChapters?: boolean;
+}
+
+/** The segments `from`..`to` (exclusive) spoken during one chapter */
+export interface ChapterRange {
+    chapter: TranscriptChapter;
+    from: number;
+    to: number;
+}
+
+// Rough English average; good enough for budgeting without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+// Expected tutorial tokens generated per transcript token
+const OUTPUT_RATIO = 0.75;
+// Headroom for chat templates, system tokens and estimation error
+const SAFETY_TOKENS = 512;
+
+const MIN_CHUNK_TOKENS = 1000;
+const DEFAULT_MAX_CHUNK_TOKENS = 12000;
+const DEFAULT_OVERLAP_TOKENS = 125;
+
+// A chunk is only cut once it holds this share of the budget
+const MIN_FILL = 0.6;
+
+// Segments compared on each side of a boundary for topic shifts
+const COHESION_WINDOW = 8;
+
+const STOPWORDS = new Set([
+    "this", "that", "with", "have", "from", "they", "will", "would", "there", "their",
+    "what", "when", "which", "then", "than", "just", "like", "into", "your", "here",
+    "about", "going", "gonna", "want", "were", "been", "also", "some", "because", "these",
+    "those", "really", "actually", "basically", "right", "okay", "know", "it's", "that's",
+]);
+
+// Prompts get a [m:ss] time marker at most this often (seconds)
+const TIME_MARKER_INTERVAL = 30;
+
+const DISCOURSE_MARKER = /^(so|okay|ok|alright|all right|now|next|let's|moving on|in this (section|part)|the next)\b/i;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Transcript tokens that fit in one chunk for every model in the chain:
+ * the prompt, the chunk and the expected output must fit the context
+ * window, and the expected output must fit the model's output limit.
+ */
+export function getChunkTokenBudget(chain: ModelTarget[], promptTokens: number): number {
+    const maxChunkTokens = Number(process.env.CHUNK_MAX_TOKENS) || DEFAULT_MAX_CHUNK_TOKENS;
+
+    const perModel = chain.map(target => {
+        const { contextTokens, maxOutputTokens } = getModelLimits(target);
+        const byContext = (contextTokens - promptTokens - SAFETY_TOKENS) / (1 + OUTPUT_RATIO);
+        const byOutput = maxOutputTokens / OUTPUT_RATIO;
+        return Math.min(byContext, byOutput);
+    });
+
+    const budget = Math.min(maxChunkTokens, ...perModel);
+    return Math.max(MIN_CHUNK_TOKENS, Math.floor(budget));
+}
+
+/**
+ * Build untimed segments from plain text (sentences, or word groups when
+ * there is no punctuation) so it can go through the same chunker
+ */
+export function segmentsFromText(text: string, wordsPerSegment: number = 40): TranscriptSegment[] {
+    const sentences = text.split(/(?<=[.!?])\s+/).filter(s => s.trim());
+    const segments: TranscriptSegment[] = [];
+
+    for (const sentence of sentences) {
+        const words = sentence.trim().split(/\s+/);
+        for (let i = 0; i < words.length; i += wordsPerSegment) {
+            segments.push({ text: words.slice(i, i + wordsPerSegment).join(" "), start: 0, duration: 0 });
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Whether segments carry real video times (text-only transcripts are all zero)
+ */
+export function hasTimings(segments: TranscriptSegment[]): boolean {
+    return segments.some(seg => seg.start > 0 || seg.duration > 0);
+}
+
+/**
+ * Join segments `from`..`to` into prompt text with a `[m:ss]` marker at the
+ * start and then every TIME_MARKER_INTERVAL seconds, so the model can say
+ * where in the video each step starts
+ */
+export function timestampedText(segments: TranscriptSegment[], from = 0, to = segments.length): string {
+    let lastMarker = -Infinity;
+
+    return segments
+        .slice(from, to)
+        .map(seg => {
+            if (seg.start - lastMarker < TIME_MARKER_INTERVAL) return seg.text;
+            lastMarker = seg.start;
+            return `[${formatTimestamp(seg.start)}] ${seg.text}`;
+        })
+        .join(" ");
+}
+
+function contentWords(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9'_$.-]+/)
+        .filter(word => word.length > 3 && !STOPWORDS.has(word));
+}
+
+/** Cosine similarity of two bags of words */
+function cohesion(left: string[], right: string[]): number {
+    if (left.length === 0 || right.length === 0) return 1;
+
+    const count = (words: string[]) => {
+        const counts = new Map<string, number>();
+        for (const word of words) counts.set(word, (counts.get(word) || 0) + 1);
+        return counts;
+    };
+    const a = count(left);
+    const b = count(right);
+
+    let dot = 0;
+    for (const [word, n] of a) dot += n * (b.get(word) || 0);
+    const norm = (m: Map<string, number>) => Math.sqrt([...m.values()].reduce((sum, n) => sum + n * n, 0));
+
+    return dot / (norm(a) * norm(b));
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Score how natural it is to cut after each segment: chapter markers,
+ * long pauses, topic shifts (drop in lexical cohesion), discourse markers
+ * and sentence endings all count.
+ */
+function scoreBoundaries(segments: TranscriptSegment[], chapters: TranscriptChapter[]): number[] {
+    const words = segments.map(seg => contentWords(seg.text));
+    const startDeltas = segments.slice(1).map((seg, i) => seg.start - segments[i].start);
+    const typicalDelta = median(startDeltas.filter(d => d > 0));
+
+    return segments.map((seg, i) => {
+        const next = segments[i + 1];
+        if (!next) return 0;
+
+        let score = 0;
+
+        if (chapters.some(ch => ch.start > seg.start && ch.start <= next.start)) {
+            score += 10;
+        }
+
+        // Rolling captions overlap, so also compare against the usual spacing
+        const silence = next.start - (seg.start + seg.duration);
+        const pause = Math.max(silence, typicalDelta > 0 ? next.start - seg.start - typicalDelta : 0);
+        if (pause > 0) {
+            score += Math.min(4, pause / 0.75);
+        }
+
+        const before = words.slice(Math.max(0, i - COHESION_WINDOW + 1), i + 1).flat();
+        const after = words.slice(i + 1, i + 1 + COHESION_WINDOW).flat();
+        score += (1 - cohesion(before, after)) * 3;
+
+        if (DISCOURSE_MARKER.test(next.text.trim())) score += 1.5;
+        if (/[.!?]["')\]]?$/.test(seg.text.trim())) score += 1;
+
+        return score;
+    });
+}
+
+function buildChunk(segments: TranscriptSegment[], from: number, to: number): TranscriptChunk {
+    const slice = segments.slice(from, to);
+    const text = slice.map(seg => seg.text).join(" ");
+    const last = slice[slice.length - 1];
+
+    return {
+        text,
+        startSegment: from,
+        endSegment: to,
+        start: slice[0].start,
+        end: last.start + last.duration,
+        tokens: estimateTokens(text),
+    };
+}
+
+/**
+ * Assign every segment to the chapter it starts in. Segments before the
+ * first chapter belong to it; chapters without any segment are dropped.
+ */
+export function chapterRanges(segments: TranscriptSegment[], chapters: TranscriptChapter[]): ChapterRange[] {
+    const sorted = [...chapters].sort((a, b) => a.start - b.start);
+    const ranges: ChapterRange[] = [];
+    let from = 0;
+
+    sorted.forEach((chapter, i) => {
+        const nextStart = sorted[i + 1]?.start ?? Infinity;
+        let to = from;
+        while (to < segments.length && segments[to].start < nextStart) to++;
+        if (to > from) ranges.push({ chapter, from, to });
+        from = to;
+    });
+
+    return ranges;
+}
+
+/**
+ * Pack whole chapters into chunks; a chapter over the budget is chunked on
+ * its own with the usual boundary scoring
+ */
+function chunkByChapters(segments: TranscriptSegment[], ranges: ChapterRange[], options: ChunkOptions): TranscriptChunk[] {
+    const { tokenBudget } = options;
+    const rangeTokens = (range: ChapterRange) =>
+        segments.slice(range.from, range.to).reduce((sum, seg) => sum + estimateTokens(seg.text) + 1, 0);
+
+    const chunks: TranscriptChunk[] = [];
+    let packFrom = -1;
+    let packTo = -1;
+    let packed = 0;
+
+    const flush = () => {
+        if (packFrom !== -1) chunks.push(buildChunk(segments, packFrom, packTo));
+        packFrom = -1;
+        packed = 0;
+    };
+
+    for (const range of ranges) {
+        const tokens = rangeTokens(range);
+
+        if (tokens > tokenBudget) {
+            flush();
+            const parts = chunkTranscript(segments.slice(range.from, range.to), { ...options, chapters: [], splitAtChapters: false });
+            for (const part of parts) {
+                chunks.push({ ...part, startSegment: part.startSegment + range.from, endSegment: part.endSegment + range.from });
+            }
+            continue;
+        }
+
+        if (packed + tokens > tokenBudget) flush();
+        if (packFrom === -1) packFrom = range.from;
+        packTo = range.to;
+        packed += tokens;
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Split transcript segments into chunks of at most `tokenBudget` tokens,
+ * cutting at the most natural boundary once a chunk is reasonably full.
+ * Consecutive chunks share `overlapTokens` of context, except across a
+ * chapter cut with `splitAtChapters`. The result depends only on the
+ * input, so the same transcript always chunks the same way.
+ */
+export function chunkTranscript(segments: TranscriptSegment[], options: ChunkOptions): TranscriptChunk[] {
+    const { tokenBudget, chapters = [], overlapTokens = DEFAULT_OVERLAP_TOKENS } = options;
+
+    if (segments.length === 0) return [];
+
+    if (options.splitAtChapters && chapters.length > 1) {
+        return chunkByChapters(segments, chapterRanges(segments, chapters), options);
+    }
+
+    // +1 for the joining space
+    const tokens = segments.map(seg => estimateTokens(seg.text) + 1);
+    const total = tokens.reduce((sum, n) => sum + n, 0);
+
+    if (total <= tokenBudget) {
+        return [buildChunk(segments, 0, segments.length)];
+    }
+
+    const scores = scoreBoundaries(segments, chapters);
+    const chunks: TranscriptChunk[] = [];
+    let from = 0;
+
+    while (from < segments.length) {
+        // Find how far this chunk can extend
+        let used = 0;
+        let limit = from;
+        while (limit < segments.length && (limit === from || used + tokens[limit] <= tokenBudget)) {
+            used += tokens[limit];
+            limit++;
+        }
+
+        if (limit >= segments.length) {
+            chunks.push(buildChunk(segments, from, segments.length));
+            break;
+        }
+
+        // Pick the best-scoring cut once the chunk is full enough; later wins ties
+        let cut = limit;
+        let bestScore = -Infinity;
+        let filled = 0;
+        for (let i = from; i < limit; i++) {
+            filled += tokens[i];
+            if (filled < tokenBudget * MIN_FILL) continue;
+            if (scores[i] >= bestScore) {
+                bestScore = scores[i];
+                cut = i + 1;
+            }
+        }
+
+        chunks.push(buildChunk(segments, from, cut));
+
+        // Step back to share some context with the next chunk, always moving forward
+        let next = cut;
+        let overlap = 0;
+        while (next - 1 > from && overlap + tokens[next - 1] <= overlapTokens) {
+            next--;
+            overlap += tokens[next];
+        }
+        from = next;
+    }
+
+    return chunks;
+}
@@ -0,0 +1,130 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface BreakerEntry {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** Length of the current (or last) open window, doubled on every failed probe */
+    cooldownMs: number;
+    /** When an open circuit may be probed again (epoch ms) */
+    retryAt: number;
+    /** A half-open circuit lets a single request through at a time */
+    probeInFlight: boolean;
+    lastError: string | null;
+}
+
+export interface BreakerStatus {
+    key: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    retryAt: number | null;
+    lastError: string | null;
+}
+
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+
+/**
+ * Per-key circuit breaker.
+ *
+ * closed    -> requests flow normally
+ * open      -> requests are refused until the cooldown window elapses
+ * half-open -> one probe request is allowed; success closes the circuit,
+ *              failure re-opens it with a doubled cooldown
+ */
+export class CircuitBreaker {
+    private entries = new Map<string, BreakerEntry>();
+
+    private getEntry(key: string): BreakerEntry {
+        let entry = this.entries.get(key);
+        if (!entry) {
+            entry = {
+                state: "closed",
+                consecutiveFailures: 0,
+                cooldownMs: 0,
+                retryAt: 0,
+                probeInFlight: false,
+                lastError: null,
+            };
+            this.entries.set(key, entry);
+        }
+        return entry;
+    }
+
+    /** Current state, moving open circuits whose cooldown elapsed to half-open */
+    getState(key: string, now = Date.now()): CircuitState {
+        const entry = this.getEntry(key);
+        if (entry.state === "open" && now >= entry.retryAt) {
+            entry.state = "half-open";
+            entry.probeInFlight = false;
+        }
+        return entry.state;
+    }
+
+    /**
+     * Reserve the right to send a request. Must be followed by
+     * `recordSuccess`, `recordFailure` or `release`.
+     */
+    tryAcquire(key: string, now = Date.now()): boolean {
+        const state = this.getState(key, now);
+        if (state === "closed") return true;
+        if (state === "open") return false;
+
+        const entry = this.getEntry(key);
+        if (entry.probeInFlight) return false;
+        entry.probeInFlight = true;
+        return true;
+    }
+
+    recordSuccess(key: string): void {
+        const entry = this.getEntry(key);
+        entry.state = "closed";
+        entry.consecutiveFailures = 0;
+        entry.cooldownMs = 0;
+        entry.retryAt = 0;
+        entry.probeInFlight = false;
+        entry.lastError = null;
+    }
+
+    /**
+     * Open the circuit for `cooldownMs`. A failed half-open probe re-opens it
+     * for at least twice the previous window.
+     */
+    recordFailure(key: string, cooldownMs: number, error: string, now = Date.now()): void {
+        const entry = this.getEntry(key);
+        const wasProbing = entry.state === "half-open";
+
+        const window = wasProbing ? Math.max(cooldownMs, entry.cooldownMs * 2) : cooldownMs;
+
+        entry.state = "open";
+        entry.consecutiveFailures++;
+        entry.cooldownMs = Math.min(window, MAX_COOLDOWN_MS);
+        entry.retryAt = now + entry.cooldownMs;
+        entry.probeInFlight = false;
+        entry.lastError = error;
+    }
+
+    /** Give back a reservation without judging the model (e.g. the request itself was invalid) */
+    release(key: string): void {
+        this.getEntry(key).probeInFlight = false;
+    }
+
+    /** Earliest moment any of the given keys can be tried again */
+    nextRetryAt(keys: string[], now = Date.now()): number | null {
+        const times = keys
+            .map(key => this.getEntry(key))
+            .filter(entry => entry.state === "open" && entry.retryAt > now)
+            .map(entry => entry.retryAt);
+        return times.length > 0 ? Math.min(...times) : null;
+    }
+
+    status(key: string, now = Date.now()): BreakerStatus {
+        const state = this.getState(key, now);
+        const entry = this.getEntry(key);
+        return {
+            key,
+            state,
+            consecutiveFailures: entry.consecutiveFailures,
+            retryAt: state === "open" ? entry.retryAt : null,
+            lastError: entry.lastError,
+        };
+    }
+}
@@ -10,3 +10,28 @@ export function extractVideoId(url: string): string | null {
     }
     return null;
 }
+
+/**
+ * Read a newline-delimited JSON response body, calling `onEvent` for each line
+ */
+export async function readNdjsonStream<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+
+        const lines = buffered.split("\n");
+        buffered = done ? "" : lines.pop() ?? "";
+
+        for (const line of lines) {
+            if (line.trim()) onEvent(JSON.parse(line) as T);
+        }
+
+        if (done) break;
+    }
+}
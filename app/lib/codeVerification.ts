@@ -0,0 +1,208 @@
+import sharp from "sharp";
+import type { GenerationEvent } from "@/app/lib/generationEvents";
+import { getVisionModelChain } from "@/app/lib/llmProviders";
+import { pickSceneFrames, type FrameSource, type SampledFrame } from "@/app/lib/storyboardUtils";
+import { generateStructured } from "@/app/lib/structuredGeneration";
+import { formatTimestamp } from "@/app/lib/timestamps";
+import type { CodeSnippet, TutorialDocument, TutorialStep, ValidationResult } from "@/app/lib/tutorialSchema";
+
+// Optional pass run after the tutorial is written: code dictated aloud is
+// often incomplete or misheard, while the screen shows it exactly. Frames
+// taken while a step is explained go to a vision model with the step's code,
+// which is corrected to match and marked as verified.
+
+export interface VerificationStats {
+    stepsChecked: number;
+    /** Code blocks the model found on screen */
+    blocksVerified: number;
+    /** Verified blocks whose code was changed to match the screen */
+    blocksCorrected: number;
+}
+
+interface BlockVerdict {
+    /** 1-based, as numbered in the prompt */
+    block: number;
+    visible: boolean;
+    code: string;
+}
+
+// Steps with less code than this (in lines) are not worth a vision call
+const MIN_CODE_LINES = 3;
+// Frames sent per step, picked at the screen changes of its time range
+const FRAMES_PER_STEP = 4;
+// Frames looked at per step to find those changes
+const SCANNED_FRAMES_PER_STEP = 8;
+// Code often stays on screen (or is finished) after it is explained
+const RANGE_PADDING_SECONDS = 15;
+// Upper bound on vision calls per tutorial; the most code-heavy steps go first
+const MAX_VERIFIED_STEPS = 20;
+// Code can't be read off narrower frames, such as storyboard tiles (320px at most)
+const MIN_READABLE_WIDTH = 640;
+
+const VERIFICATION_PROMPT = `## CODE VERIFICATION
+Below is one step of a programming tutorial written from a video's transcript, followed by its code blocks. The attached images are frames of the video taken while the step is explained, in order, at {TIMES}.
+Code dictated aloud is often incomplete or misheard; the frames show the exact code.
+
+For each code block:
+- If the code (or part of it) is readable in a frame, correct the block to match the screen: names, values, syntax, missing or extra lines. Keep the parts of the block that are not visible on screen.
+- If it is not visible or not readable in any frame, set "visible" to false and return the code unchanged.
+Never add code that is neither in the block nor on screen, and do not reformat code that already matches.
+
+## STEP: {TITLE}
+{EXPLANATION}
+
+{BLOCKS}
+
+Respond with ONLY a JSON object of this shape:
+{ "blocks": [{ "block": 1, "visible": true, "code": "the code, corrected to match the screen" }] }`;
+
+function countLines(step: TutorialStep): number {
+    return step.codeBlocks.reduce((sum, block) => sum + block.code.split("\n").length, 0);
+}
+
+/** Seconds at which to look at the screen for a step */
+function sampleTimes(step: TutorialStep): number[] {
+    if (!step.time) return [];
+    const span = step.time.end - step.time.start + RANGE_PADDING_SECONDS;
+    // The last sample is at the end of the padded range, where code is most complete
+    return Array.from({ length: SCANNED_FRAMES_PER_STEP }, (_, i) => step.time!.start + (span * (i + 1)) / SCANNED_FRAMES_PER_STEP);
+}
+
+function renderBlocks(blocks: CodeSnippet[]): string {
+    return blocks
+        .map((block, i) => {
+            const about = [block.language, block.filename].filter(Boolean).join(", ");
+            return `### Block ${i + 1} (${about})\n\`\`\`\`${block.language}\n${block.code}\n\`\`\`\``;
+        })
+        .join("\n\n");
+}
+
+function validateVerdicts(raw: unknown, blockCount: number): ValidationResult<BlockVerdict[]> {
+    const blocks = typeof raw === "object" && raw !== null ? (raw as { blocks?: unknown }).blocks : undefined;
+    if (!Array.isArray(blocks)) return { ok: false, errors: ["blocks must be an array"] };
+
+    const errors: string[] = [];
+    const verdicts: BlockVerdict[] = [];
+
+    blocks.forEach((item, i) => {
+        const path = `blocks[${i}]`;
+        const { block, visible, code } = (typeof item === "object" && item !== null ? item : {}) as Record<string, unknown>;
+
+        if (typeof block !== "number" || !Number.isInteger(block) || block < 1 || block > blockCount) {
+            errors.push(`${path}.block must be a block number from 1 to ${blockCount}`);
+        } else if (typeof visible !== "boolean") {
+            errors.push(`${path}.visible must be true or false`);
+        } else if (typeof code !== "string" || (visible && !code.trim())) {
+            errors.push(`${path}.code must be a non-empty string`);
+        } else {
+            verdicts.push({ block, visible, code: code.replace(/\n+$/, "") });
+        }
+    });
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: verdicts };
+}
+
+async function verifyStep(
+    step: TutorialStep,
+    frames: SampledFrame[],
+    signal?: AbortSignal
+): Promise<{ step: TutorialStep; verified: number; corrected: number }> {
+    const prompt = VERIFICATION_PROMPT
+        .replace("{TIMES}", () => frames.map(frame => formatTimestamp(frame.time ?? 0)).join(", "))
+        .replace("{TITLE}", () => step.title)
+        .replace("{EXPLANATION}", () => step.explanation)
+        .replace("{BLOCKS}", () => renderBlocks(step.codeBlocks));
+
+    const { value: verdicts } = await generateStructured(
+        prompt,
+        raw => validateVerdicts(raw, step.codeBlocks.length),
+        `Code verification "${step.title}"`,
+        {
+            images: frames.map(frame => ({ mimeType: "image/jpeg", data: frame.base64 })),
+            chain: getVisionModelChain(),
+            signal,
+        }
+    );
+
+    let verified = 0;
+    let corrected = 0;
+    const codeBlocks = step.codeBlocks.map((block, i) => {
+        const verdict = verdicts.find(v => v.block === i + 1);
+        if (!verdict?.visible) return block;
+
+        verified++;
+        if (verdict.code.trim() !== block.code.trim()) corrected++;
+        return { ...block, code: verdict.code, verified: true };
+    });
+
+    return { step: { ...step, codeBlocks }, verified, corrected };
+}
+
+/**
+ * Check the code of the most code-heavy timed steps against frames of the
+ * video. Best effort: a step that cannot be checked keeps its code as
+ * written, and without frames large enough to read or a vision model
+ * nothing is checked. The document is not modified. Throws as soon as
+ * `signal` is aborted.
+ */
+export async function verifyCodeAgainstFrames(
+    document: TutorialDocument,
+    frameSource: FrameSource | null,
+    send: (event: GenerationEvent) => void,
+    signal?: AbortSignal
+): Promise<{ document: TutorialDocument; stats: VerificationStats }> {
+    const stats: VerificationStats = { stepsChecked: 0, blocksVerified: 0, blocksCorrected: 0 };
+    const skip = (reason: string) => {
+        console.log(`[Verify] Skipped: ${reason}`);
+        send({ type: "verify-skipped", reason });
+        return { document, stats };
+    };
+
+    if (!frameSource) return skip("there is no video to take frames from");
+    if (getVisionModelChain().length === 0) return skip("no vision-capable model is configured");
+
+    const candidates = document.sections
+        .flatMap((section, sectionIndex) => section.steps.map((step, stepIndex) => ({ step, sectionIndex, stepIndex })))
+        .filter(({ step }) => step.time && countLines(step) >= MIN_CODE_LINES)
+        .sort((a, b) => countLines(b.step) - countLines(a.step))
+        .slice(0, MAX_VERIFIED_STEPS);
+    if (candidates.length === 0) return skip("no timed step has enough code to check");
+
+    send({ type: "verify-start", steps: candidates.length });
+
+    const frames = await frameSource(candidates.flatMap(({ step }) => sampleTimes(step)));
+    signal?.throwIfAborted();
+    if (frames.length === 0) return skip("no frames could be taken from the video");
+
+    const { width = 0 } = await sharp(Buffer.from(frames[0].base64, "base64")).metadata();
+    if (width < MIN_READABLE_WIDTH) return skip(`the video's frames (${width}px wide) are too small to read code from`);
+
+    const sections = document.sections.map(section => ({ ...section, steps: [...section.steps] }));
+
+    for (const { step, sectionIndex, stepIndex } of candidates) {
+        const from = step.time!.start;
+        const to = step.time!.end + RANGE_PADDING_SECONDS;
+        // One frame per screen the step went through, not four of the same one
+        const stepFrames = await pickSceneFrames(
+            frames.filter(frame => frame.time !== null && frame.time >= from && frame.time <= to),
+            FRAMES_PER_STEP
+        );
+        if (stepFrames.length === 0) continue;
+
+        try {
+            const checked = await verifyStep(step, stepFrames, signal);
+            sections[sectionIndex].steps[stepIndex] = checked.step;
+            stats.stepsChecked++;
+            stats.blocksVerified += checked.verified;
+            stats.blocksCorrected += checked.corrected;
+        } catch (err) {
+            signal?.throwIfAborted();
+            console.log(`[Verify] Could not check "${step.title}": ${err instanceof Error ? err.message : err}`);
+        }
+    }
+
+    console.log(`[Verify] ${stats.blocksVerified} blocks verified (${stats.blocksCorrected} corrected) in ${stats.stepsChecked} steps`);
+    send({ type: "verify-done", verified: stats.blocksVerified, corrected: stats.blocksCorrected });
+
+    return { document: { ...document, sections }, stats };
+}
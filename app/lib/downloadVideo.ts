@@ -1,46 +1,195 @@
-export interface VideoResult {
-    buffer?: Buffer;
-    mimeType?: string;
-    useDirectUrl?: boolean;
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import os from "os";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { Innertube } from "youtubei.js";
+import { probeMedia } from "@/app/lib/ffmpeg";
+import { isVideoId } from "@/app/lib/videoUtils";
+
+export type DownloaderId = "local" | "youtubei" | "cobalt";
+
+/** What a caller needs from the video: speech-to-text only needs the audio */
+export type DownloadContent = "audio" | "video";
+
+/** The tracks a media file carries, as ffprobe reads them */
+export interface MediaTracks {
+    hasAudio: boolean;
+    hasVideo: boolean;
+    audioCodec: string | null;
+    videoCodec: string | null;
+    width: number | null;
+    height: number | null;
+}
+
+/** A media stream opened by a downloader, not yet written anywhere */
+interface DownloadSource {
+    stream: Readable;
+    /** Declared size in bytes, when the source knows it */
+    size: number | null;
+    mimeType: string;
+    /** File extension (without the dot) the download is saved under */
+    extension: string;
 }
 
 /**
- * Download YouTube video using the Cobalt API.
- * Cobalt is a free, open-source API that handles YouTube downloads reliably.
- * 
- * Falls back to returning null if download fails (tutorial will use transcript only).
+ * One way of getting a video's media. Adapters only open a stream; writing it
+ * to disk, the size cap, reading its tracks and clean-up are shared (see
+ * `downloadVideo`).
  */
-export async function downloadVideoAsBuffer(videoId: string): Promise<VideoResult | null> {
-    const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+export interface VideoDownloader {
+    id: DownloaderId;
+    /** Human-readable name used in logs */
+    label: string;
+    /** Whether the endpoint / directory this adapter needs is configured */
+    isConfigured(): boolean;
+    open(videoId: string, content: DownloadContent, signal?: AbortSignal): Promise<DownloadSource>;
+}
 
-    console.log(`[Video] Downloading video via Cobalt API: ${videoId}`);
+export interface DownloadOptions {
+    content?: DownloadContent;
+    /** Aborting stops the transfer and removes the partial file */
+    signal?: AbortSignal;
+    /** Downloads larger than this fail; defaults to VIDEO_MAX_BYTES */
+    maxBytes?: number;
+}
 
-    try {
-        // Step 1: Request download URL from Cobalt API
-        const cobaltResponse = await fetch("https://api.cobalt.tools/", {
+/** A video saved to its own temporary directory */
+export interface DownloadedVideo {
+    path: string;
+    size: number;
+    mimeType: string;
+    tracks: MediaTracks;
+    downloader: DownloaderId;
+    /** Removes the temporary directory; other files written there go with it */
+    cleanup(): Promise<void>;
+}
+
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+// ffprobe only reads the container's headers
+const PROBE_TIMEOUT_MS = 60 * 1000;
+
+const LOCAL_EXTENSIONS = ["mp4", "webm", "mkv", "mov", "m4a", "mp3", "wav", "opus"];
+
+const MIME_TYPES: Record<string, string> = {
+    mp4: "video/mp4",
+    webm: "video/webm",
+    mkv: "video/x-matroska",
+    mov: "video/quicktime",
+    m4a: "audio/mp4",
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    opus: "audio/ogg",
+};
+
+/** Largest video accepted, downloaded or uploaded */
+export function getVideoMaxBytes(): number {
+    return Number(process.env.VIDEO_MAX_BYTES) || DEFAULT_MAX_BYTES;
+}
+
+export function formatMegabytes(bytes: number): string {
+    return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+function fromWebStream(stream: ReadableStream<Uint8Array>): Readable {
+    return Readable.fromWeb(stream as WebReadableStream<Uint8Array>);
+}
+
+/**
+ * `<videoId>.<ext>` files in LOCAL_VIDEO_DIR, for tests and offline
+ * development without downloading anything
+ */
+const localDownloader: VideoDownloader = {
+    id: "local",
+    label: "local files",
+    isConfigured: () => Boolean(process.env.LOCAL_VIDEO_DIR),
+    async open(videoId) {
+        const dir = path.resolve(process.env.LOCAL_VIDEO_DIR || "");
+        if (!isVideoId(videoId)) throw new Error(`"${videoId}" is not a video ID`);
+
+        for (const extension of LOCAL_EXTENSIONS) {
+            const file = path.resolve(dir, `${videoId}.${extension}`);
+            // Never open anything outside the directory, whatever the id
+            if (path.dirname(file) !== dir) continue;
+
+            const stat = await fs.stat(file).catch(() => null);
+            if (!stat?.isFile()) continue;
+
+            return {
+                stream: createReadStream(file),
+                size: stat.size,
+                mimeType: MIME_TYPES[extension],
+                extension,
+            };
+        }
+
+        throw new Error(`No ${LOCAL_EXTENSIONS.map(ext => `${videoId}.${ext}`).join("/")} in ${dir}`);
+    },
+};
+
+/**
+ * youtubei.js (InnerTube): picks an MP4 format with the tracks needed, the
+ * smallest one for audio, 360p or less for video (enough for frames)
+ */
+const youtubeiDownloader: VideoDownloader = {
+    id: "youtubei",
+    label: "youtubei.js",
+    isConfigured: () => true,
+    async open(videoId, content) {
+        const youtube = await Innertube.create();
+        const info = await youtube.getBasicInfo(videoId);
+        const format = info.chooseFormat(content === "audio"
+            ? { type: "audio", quality: "bestefficiency", format: "mp4" }
+            : { type: "video+audio", quality: "360p", format: "mp4" });
+
+        // e.g. `video/mp4; codecs="avc1.42001E, mp4a.40.2"`
+        const [mimeType] = format.mime_type.split(";");
+
+        return {
+            stream: fromWebStream(await info.download({ itag: format.itag })),
+            size: format.content_length ?? null,
+            mimeType,
+            extension: content === "audio" ? "m4a" : "mp4",
+        };
+    },
+};
+
+/**
+ * A self-hosted Cobalt instance (https://github.com/imputnet/cobalt) at
+ * COBALT_API_URL, with COBALT_API_KEY when the instance requires one
+ */
+const cobaltDownloader: VideoDownloader = {
+    id: "cobalt",
+    label: "Cobalt",
+    isConfigured: () => Boolean(process.env.COBALT_API_URL),
+    async open(videoId, content, signal) {
+        const headers: Record<string, string> = {
+            "Accept": "application/json",
+            "Content-Type": "application/json",
+        };
+        if (process.env.COBALT_API_KEY) {
+            headers["Authorization"] = `Api-Key ${process.env.COBALT_API_KEY}`;
+        }
+
+        const cobaltResponse = await fetch(process.env.COBALT_API_URL || "", {
             method: "POST",
-            headers: {
-                "Accept": "application/json",
-                "Content-Type": "application/json",
-            },
+            headers,
             body: JSON.stringify({
-                url: youtubeUrl,
+                url: `https://www.youtube.com/watch?v=${videoId}`,
                 videoQuality: "480",  // Lower quality for faster download and smaller file
                 filenameStyle: "basic",
-                downloadMode: "auto",
+                downloadMode: content === "audio" ? "audio" : "auto",
             }),
+            signal,
         });
 
         if (!cobaltResponse.ok) {
-            const errorText = await cobaltResponse.text();
-            console.error(`[Video] Cobalt API error: ${cobaltResponse.status} - ${errorText}`);
-            return null;
+            throw new Error(`Cobalt API returned ${cobaltResponse.status}: ${(await cobaltResponse.text()).slice(0, 300)}`);
         }
 
         const cobaltData = await cobaltResponse.json();
-        console.log(`[Video] Cobalt response status: ${cobaltData.status}`);
-
-        // Cobalt returns a download URL
         let downloadUrl: string | null = null;
 
         if (cobaltData.status === "tunnel" || cobaltData.status === "redirect") {
@@ -50,43 +199,151 @@ export async function downloadVideoAsBuffer(videoId: string): Promise<VideoResul
             const videoOption = cobaltData.picker.find((p: { type: string }) => p.type === "video");
             downloadUrl = videoOption?.url || cobaltData.picker[0]?.url;
         } else if (cobaltData.status === "error") {
-            console.error(`[Video] Cobalt error: ${cobaltData.error?.code}`);
-            return null;
+            throw new Error(`Cobalt error: ${cobaltData.error?.code}`);
         }
 
         if (!downloadUrl) {
-            console.error(`[Video] No download URL from Cobalt`);
-            return null;
+            throw new Error(`No download URL from Cobalt (status: ${cobaltData.status})`);
         }
 
-        console.log(`[Video] Got download URL, fetching video...`);
+        const videoResponse = await fetch(downloadUrl, { signal });
+        if (!videoResponse.ok || !videoResponse.body) {
+            throw new Error(`Failed to download from Cobalt: ${videoResponse.status}`);
+        }
 
-        // Step 2: Download the actual video file
-        const videoResponse = await fetch(downloadUrl);
+        const length = Number(videoResponse.headers.get("content-length"));
+        const mimeType = videoResponse.headers.get("content-type")?.split(";")[0] || (content === "audio" ? "audio/mpeg" : "video/mp4");
 
-        if (!videoResponse.ok) {
-            console.error(`[Video] Failed to download video: ${videoResponse.status}`);
-            return null;
-        }
+        return {
+            stream: fromWebStream(videoResponse.body),
+            size: length > 0 ? length : null,
+            mimeType,
+            extension: Object.keys(MIME_TYPES).find(ext => MIME_TYPES[ext] === mimeType) ?? (content === "audio" ? "mp3" : "mp4"),
+        };
+    },
+};
+
+const DOWNLOADERS: Record<DownloaderId, VideoDownloader> = {
+    local: localDownloader,
+    youtubei: youtubeiDownloader,
+    cobalt: cobaltDownloader,
+};
+
+const DEFAULT_ORDER: DownloaderId[] = ["local", "youtubei", "cobalt"];
+
+/** Parse a comma-separated env var into a trimmed, non-empty list */
+function parseList(value: string | undefined): string[] {
+    return (value || "")
+        .split(",")
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+function isDownloaderId(value: string): value is DownloaderId {
+    return value in DOWNLOADERS;
+}
+
+/**
+ * Resolve the ordered list of downloaders to try.
+ *
+ * - `VIDEO_DOWNLOADERS` orders them explicitly, e.g. `cobalt,youtubei`
+ * - Otherwise: local, youtubei, cobalt
+ *
+ * Unconfigured downloaders (no LOCAL_VIDEO_DIR, no COBALT_API_URL) are skipped.
+ */
+export function getVideoDownloaders(): VideoDownloader[] {
+    const configured = parseList(process.env.VIDEO_DOWNLOADERS);
+    for (const id of configured) {
+        if (!isDownloaderId(id)) console.warn(`[Video] Ignoring unknown VIDEO_DOWNLOADERS entry: ${id}`);
+    }
 
-        const arrayBuffer = await videoResponse.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
+    const order = configured.length > 0 ? configured.filter(isDownloaderId) : DEFAULT_ORDER;
+    return [...new Set(order)].map(id => DOWNLOADERS[id]).filter(downloader => downloader.isConfigured());
+}
+
+/** Passes chunks through, failing once more than `maxBytes` went by. `what` names the stream in the error */
+export function sizeLimit(maxBytes: number, onChunk: (total: number) => void, what = "Download"): Transform {
+    let total = 0;
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            total += chunk.length;
+            onChunk(total);
+            if (total > maxBytes) {
+                callback(new Error(`${what} exceeds the ${formatMegabytes(maxBytes)} limit (VIDEO_MAX_BYTES)`));
+                return;
+            }
+            callback(null, chunk);
+        },
+    });
+}
+
+async function saveSource(
+    downloader: VideoDownloader,
+    source: DownloadSource,
+    maxBytes: number,
+    signal?: AbortSignal
+): Promise<DownloadedVideo> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tubetutor-video-"));
+    const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+
+    try {
+        if (source.size !== null && source.size > maxBytes) {
+            throw new Error(`Video is ${formatMegabytes(source.size)}, over the ${formatMegabytes(maxBytes)} limit (VIDEO_MAX_BYTES)`);
+        }
 
-        console.log(`[Video] Downloaded: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`);
+        const file = path.join(dir, `video.${source.extension}`);
+        let size = 0;
+        await pipeline(source.stream, sizeLimit(maxBytes, total => { size = total; }), createWriteStream(file), { signal });
 
-        // Check file size - Gemini has limits
-        if (buffer.length > 20 * 1024 * 1024) {
-            console.warn(`[Video] Video too large (${(buffer.length / 1024 / 1024).toFixed(2)}MB), Gemini may reject it`);
+        // What the file holds, whatever the downloader asked for
+        const { tracks } = await probeMedia(file, { timeoutMs: PROBE_TIMEOUT_MS, signal });
+        if (!tracks.hasAudio && !tracks.hasVideo) {
+            throw new Error("The download has neither an audio nor a video track");
         }
 
         return {
-            buffer,
-            mimeType: "video/mp4",
-            useDirectUrl: false
+            path: file,
+            size,
+            mimeType: source.mimeType,
+            tracks,
+            downloader: downloader.id,
+            cleanup,
         };
+    } catch (err) {
+        source.stream.destroy();
+        await cleanup();
+        throw err;
+    }
+}
+
+/**
+ * Download a video to a temporary directory, trying each downloader in turn.
+ * The caller owns the result and must call `cleanup()` once done with it.
+ * Throws when every downloader failed, or as soon as `signal` is aborted.
+ */
+export async function downloadVideo(videoId: string, options: DownloadOptions = {}): Promise<DownloadedVideo> {
+    const content = options.content ?? "video";
+    const maxBytes = options.maxBytes ?? getVideoMaxBytes();
+    const errors: string[] = [];
+
+    for (const downloader of getVideoDownloaders()) {
+        options.signal?.throwIfAborted();
+        console.log(`[Video] Downloading ${content} of ${videoId} via ${downloader.label}...`);
 
-    } catch (error) {
-        console.error(`[Video] Download failed:`, error);
-        return null;
+        try {
+            const source = await downloader.open(videoId, content, options.signal);
+            const video = await saveSource(downloader, source, maxBytes, options.signal);
+            console.log(`[Video] Downloaded ${formatMegabytes(video.size)} (${video.mimeType}) via ${downloader.label}`);
+            return video;
+        } catch (err) {
+            options.signal?.throwIfAborted();
+            const message = err instanceof Error ? err.message : String(err);
+            console.log(`[Video] ${downloader.label} failed: ${message}`);
+            errors.push(`${downloader.label}: ${message}`);
+        }
     }
+
+    throw new Error(errors.length > 0
+        ? `Could not download the video (${errors.join("; ")})`
+        : "No video downloader is configured (see VIDEO_DOWNLOADERS)");
 }
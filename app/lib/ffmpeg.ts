@@ -0,0 +1,81 @@
+import type { MediaTracks } from "@/app/lib/downloadVideo";
+import { runCommand, type CommandOptions } from "@/app/lib/processUtils";
+
+// ffmpeg is found on PATH unless FFMPEG_PATH points at a specific binary
+export function getFfmpegPath(): string {
+    return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+// ffprobe ships with ffmpeg; FFPROBE_PATH is only needed when it is elsewhere
+export function getFfprobePath(): string {
+    return process.env.FFPROBE_PATH || "ffprobe";
+}
+
+export async function runFfmpeg(args: string[], options: CommandOptions = {}): Promise<void> {
+    await runCommand(getFfmpegPath(), ["-hide_banner", "-loglevel", "error", "-y", ...args], options);
+}
+
+/**
+ * Extract the audio track of `inputPath` as 16 kHz mono 16-bit PCM WAV,
+ * the input format speech-to-text engines such as whisper.cpp expect
+ */
+export async function extractAudio(inputPath: string, outputPath: string, options: CommandOptions = {}): Promise<void> {
+    await runFfmpeg(["-i", inputPath, "-vn", "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", outputPath], options);
+}
+
+/**
+ * Save the frame shown `time` seconds into `inputPath` as a JPEG, scaled
+ * down to at most `maxWidth` pixels wide
+ */
+export async function extractFrame(
+    inputPath: string,
+    time: number,
+    outputPath: string,
+    maxWidth: number,
+    options: CommandOptions = {}
+): Promise<void> {
+    // -ss before -i seeks by keyframe first, which is much faster on long recordings
+    await runFfmpeg(
+        ["-ss", time.toFixed(3), "-i", inputPath, "-frames:v", "1", "-vf", `scale='min(${maxWidth},iw)':-2`, "-q:v", "3", outputPath],
+        options
+    );
+}
+
+export interface MediaProbe {
+    /** Seconds, null when the container does not say */
+    duration: number | null;
+    tracks: MediaTracks;
+}
+
+interface FfprobeOutput {
+    format?: { duration?: string };
+    streams?: { codec_type?: string; codec_name?: string; width?: number; height?: number }[];
+}
+
+/** Read the duration and tracks of a media file with ffprobe */
+export async function probeMedia(inputPath: string, options: CommandOptions = {}): Promise<MediaProbe> {
+    const stdout = await runCommand(
+        getFfprobePath(),
+        ["-v", "error", "-show_entries", "format=duration:stream=codec_type,codec_name,width,height", "-of", "json", inputPath],
+        options
+    );
+
+    const output: FfprobeOutput = JSON.parse(stdout);
+    const streams = output.streams ?? [];
+    const audio = streams.find(stream => stream.codec_type === "audio");
+    // Cover art in audio files is reported as a video stream named mjpeg/png
+    const video = streams.find(stream => stream.codec_type === "video" && !/^(mjpeg|png)$/.test(stream.codec_name ?? ""));
+    const duration = Number(output.format?.duration);
+
+    return {
+        duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+        tracks: {
+            hasAudio: Boolean(audio),
+            hasVideo: Boolean(video),
+            audioCodec: audio?.codec_name ?? null,
+            videoCodec: video?.codec_name ?? null,
+            width: video?.width ?? null,
+            height: video?.height ?? null,
+        },
+    };
+}
@@ -0,0 +1,163 @@
+import sharp from "sharp";
+
+// Perceptual hashes of video frames, so that frames showing the same screen
+// are recognised even when their bytes differ (re-encoding, a blinking
+// cursor). Two 64-bit hashes are kept per image:
+// - dHash compares neighbouring pixels of a 9x8 thumbnail; sensitive to
+//   layout changes, but noisy on flat screens (a dark terminal)
+// - pHash keeps the signs of the lowest frequencies of a 32x32 DCT; robust
+//   to compression and scaling
+// Frames are duplicates when both hashes are close, and a scene changes when
+// both jump, so noise in one hash is never enough either way.
+
+/** 64-bit hashes as 16 hex characters */
+export interface ImageHash {
+    dHash: string;
+    pHash: string;
+}
+
+// Frames this close by both hashes (in differing bits) show the same screen.
+// Kept tight: a few more lines typed in an editor only move a few bits, and
+// that frame is worth keeping
+const DUPLICATE_DHASH_DISTANCE = 3;
+const DUPLICATE_PHASH_DISTANCE = 4;
+// A jump this large in both hashes between consecutive frames is a new screen:
+// another file opened, a terminal taking over, a slide change
+const SCENE_CHANGE_DISTANCE = 10;
+
+const PHASH_SIZE = 32;
+const PHASH_BITS = 8;
+
+function bitsToHex(bits: boolean[]): string {
+    let hex = "";
+    for (let i = 0; i < bits.length; i += 4) {
+        const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+        hex += nibble.toString(16);
+    }
+    return hex;
+}
+
+async function greyscalePixels(image: Buffer, width: number, height: number): Promise<Buffer> {
+    return sharp(image).greyscale().resize(width, height, { fit: "fill" }).raw().toBuffer();
+}
+
+async function dHash(image: Buffer): Promise<string> {
+    const pixels = await greyscalePixels(image, 9, 8);
+    const bits: boolean[] = [];
+    for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+            bits.push(pixels[row * 9 + col] > pixels[row * 9 + col + 1]);
+        }
+    }
+    return bitsToHex(bits);
+}
+
+// cos((2x + 1) * u * pi / 2N) for the DCT, computed once
+const DCT_COSINES = Array.from({ length: PHASH_BITS }, (_, u) =>
+    Array.from({ length: PHASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE)))
+);
+
+async function pHash(image: Buffer): Promise<string> {
+    const pixels = await greyscalePixels(image, PHASH_SIZE, PHASH_SIZE);
+
+    // Only the lowest 8x8 frequencies are needed, so the DCT stops there
+    const coefficients: number[] = [];
+    for (let u = 0; u < PHASH_BITS; u++) {
+        for (let v = 0; v < PHASH_BITS; v++) {
+            let sum = 0;
+            for (let y = 0; y < PHASH_SIZE; y++) {
+                for (let x = 0; x < PHASH_SIZE; x++) {
+                    sum += pixels[y * PHASH_SIZE + x] * DCT_COSINES[u][y] * DCT_COSINES[v][x];
+                }
+            }
+            coefficients.push(sum);
+        }
+    }
+
+    // The DC term is the overall brightness, not structure: leave it out of the median
+    const median = coefficients.slice(1).sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+    return bitsToHex(coefficients.map(value => value > median));
+}
+
+export async function hashImage(image: Buffer): Promise<ImageHash> {
+    const [d, p] = await Promise.all([dHash(image), pHash(image)]);
+    return { dHash: d, pHash: p };
+}
+
+/** Number of differing bits between two hex hashes of the same length */
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (xor) {
+            distance += xor & 1;
+            xor >>= 1;
+        }
+    }
+    return distance;
+}
+
+/** How much changed between two frames: the smaller of the two hash distances */
+function changeDistance(a: ImageHash, b: ImageHash): number {
+    return Math.min(hammingDistance(a.dHash, b.dHash), hammingDistance(a.pHash, b.pHash));
+}
+
+export function isNearDuplicate(a: ImageHash, b: ImageHash): boolean {
+    return hammingDistance(a.dHash, b.dHash) <= DUPLICATE_DHASH_DISTANCE
+        && hammingDistance(a.pHash, b.pHash) <= DUPLICATE_PHASH_DISTANCE;
+}
+
+/**
+ * Keep the first of each group of near-identical images, in order. Items
+ * whose image cannot be decoded are kept, since they cannot be compared.
+ */
+export async function dropNearDuplicates<T>(items: T[], imageOf: (item: T) => Buffer): Promise<T[]> {
+    const kept: T[] = [];
+    const keptHashes: ImageHash[] = [];
+
+    for (const item of items) {
+        let hash: ImageHash;
+        try {
+            hash = await hashImage(imageOf(item));
+        } catch {
+            kept.push(item);
+            continue;
+        }
+
+        if (keptHashes.some(other => isNearDuplicate(hash, other))) continue;
+        kept.push(item);
+        keptHashes.push(hash);
+    }
+
+    return kept;
+}
+
+/**
+ * Indices (ascending) of up to `count` frames that cover what was shown, from
+ * the hashes of frames taken at regular intervals. The video is cut into
+ * scenes at its largest screen changes, and each scene is represented by its
+ * last frame, when whatever was being typed or run is most complete. Slots
+ * left over (a mostly static video) go to evenly spaced frames that are not
+ * near-duplicates of one already picked.
+ */
+export function selectSceneFrames(hashes: ImageHash[], count: number): number[] {
+    if (hashes.length <= count) return hashes.map((_, i) => i);
+
+    const changes = hashes
+        .map((hash, i) => ({ index: i, distance: i === 0 ? 0 : changeDistance(hashes[i - 1], hash) }))
+        .filter(change => change.distance >= SCENE_CHANGE_DISTANCE)
+        .sort((a, b) => b.distance - a.distance)
+        .slice(0, count - 1)
+        .map(change => change.index);
+
+    const sceneStarts = [0, ...changes].sort((a, b) => a - b);
+    const picked = sceneStarts.map((_, i) => (sceneStarts[i + 1] ?? hashes.length) - 1);
+
+    for (let i = 0; i < count && picked.length < count; i++) {
+        const index = Math.floor(((i + 0.5) * hashes.length) / count);
+        if (picked.some(other => other === index || isNearDuplicate(hashes[other], hashes[index]))) continue;
+        picked.push(index);
+    }
+
+    return picked.sort((a, b) => a - b);
+}
@@ -0,0 +1,246 @@
+// Progress events streamed by POST /api/generate as newline-delimited JSON.
+// Shared by the route (producer) and the home page (consumer), so keep this
+// file free of server-only imports.
+
+import type { TutorialAsset, TutorialDocument } from "@/app/lib/tutorialSchema";
+import type { TemplateRef } from "@/app/lib/promptTemplates";
+import type { CaptionTrackSummary } from "@/app/lib/captionTracks";
+import type { CleanupStats } from "@/app/lib/transcriptCleanup";
+import type { TranscriptAttempt, TranscriptSegment } from "@/app/lib/transcriptUtils";
+import type { VerificationStats } from "@/app/lib/codeVerification";
+import type { VideoMetadata } from "@/app/lib/videoMetadata";
+import { formatTimestamp } from "@/app/lib/timestamps";
+
+export type GenerationEvent =
+    | { type: "video-id"; videoId: string }
+    | { type: "recording-ready"; filename: string; duration: number | null }
+    | { type: "transcript-attempt"; strategy: string }
+    | { type: "transcript-failed"; strategy: string; error: string }
+    | { type: "transcript-success"; strategy: string; chars: number }
+    | { type: "cleanup"; charsSaved: number; tokensSaved: number }
+    | { type: "chunking"; totalChunks: number; totalChars: number }
+    | { type: "outline-start" }
+    | { type: "outline-done"; sections: number; concurrency: number }
+    | { type: "chunk-start"; index: number; total: number; chars: number }
+    | { type: "chunk-done"; index: number; total: number; model: string; chars: number; durationMs: number }
+    | { type: "verify-start"; steps: number }
+    | { type: "verify-skipped"; reason: string }
+    | { type: "verify-done"; verified: number; corrected: number }
+    | { type: "screenshots-done"; attached: number }
+    | { type: "merge-done"; chars: number }
+    | { type: "complete"; result: GenerateResult }
+    | { type: "error"; error: string; details?: string; tips?: string; diagnostics?: TranscriptAttempt[] };
+
+export interface GenerateResult {
+    success: true;
+    /** Markdown rendered from `document` */
+    tutorial: string;
+    document: TutorialDocument;
+    /** null when the tutorial was written from a recording or an uploaded transcript alone */
+    videoId: string | null;
+    /** Null without a video or recording, or when no metadata source answered */
+    video: VideoMetadata | null;
+    hasTranscript: boolean;
+    transcriptSource: string | null;
+    /** Caption track the transcript was read from, when the strategy knows it */
+    captionTrack: CaptionTrackSummary | null;
+    /** Every transcript strategy tried, in order (empty for uploaded transcripts) */
+    transcriptDiagnostics: TranscriptAttempt[];
+    /** What the transcript clean-up pass removed before chunking */
+    cleanup: CleanupStats;
+    /** Files the markdown references (step screenshots), to store next to it */
+    assets: TutorialAsset[];
+    /** Outcome of the code verification pass, null when it was not requested */
+    verification: VerificationStats | null;
+    /** The cleaned transcript the tutorial was written from */
+    transcript: TranscriptSegment[];
+    /** Language of the caption track, as reported by YouTube (null when unknown) */
+    sourceLanguage: string | null;
+    /** Language code the tutorial was written in */
+    targetLanguage: string;
+    chunksProcessed: number;
+    mode: GenerationMode;
+    /** Prompt template the tutorial was written with */
+    template: TemplateRef;
+}
+
+/**
+ * sequential: chunks are written one after another, each seeing the previous
+ * outline:    a global outline is planned first, then sections are written in parallel
+ */
+export type GenerationMode = "sequential" | "outline";
+
+export type ChunkStatus = "pending" | "active" | "done";
+
+export interface ChunkProgress {
+    status: ChunkStatus;
+    model?: string;
+    durationMs?: number;
+}
+
+export interface GenerationProgress {
+    value: number;
+    message: string;
+    chunks: ChunkProgress[];
+    etaSeconds: number | null;
+    /** How many chunks the server works on at once */
+    concurrency: number;
+}
+
+// Share of the bar reserved for each phase; chunk generation gets the rest
+const TRANSCRIPT_START = 10;
+const TRANSCRIPT_DONE = 25;
+const CHUNKS_DONE = 95;
+
+export const INITIAL_PROGRESS: GenerationProgress = {
+    value: 0,
+    message: "",
+    chunks: [],
+    etaSeconds: null,
+    concurrency: 1,
+};
+
+/**
+ * Estimate the remaining seconds from the average duration of finished chunks
+ */
+function estimateRemainingSeconds(chunks: ChunkProgress[], concurrency: number): number | null {
+    const finished = chunks.filter(c => c.status === "done" && c.durationMs !== undefined);
+    if (finished.length === 0) return null;
+
+    const average = finished.reduce((sum, c) => sum + (c.durationMs ?? 0), 0) / finished.length;
+    const remaining = chunks.length - finished.length;
+    const rounds = Math.ceil(remaining / Math.max(1, concurrency));
+
+    return Math.round((average * rounds) / 1000);
+}
+
+function chunkProgressValue(chunks: ChunkProgress[]): number {
+    if (chunks.length === 0) return TRANSCRIPT_DONE;
+
+    // Count an in-flight chunk as half done so the bar keeps moving
+    const completed = chunks.reduce(
+        (sum, c) => sum + (c.status === "done" ? 1 : c.status === "active" ? 0.5 : 0),
+        0
+    );
+
+    return TRANSCRIPT_DONE + ((CHUNKS_DONE - TRANSCRIPT_DONE) * completed) / chunks.length;
+}
+
+/**
+ * Fold a streamed event into the progress shown by the loading screen
+ */
+export function applyGenerationEvent(
+    state: GenerationProgress,
+    event: GenerationEvent
+): GenerationProgress {
+    switch (event.type) {
+        case "video-id":
+            return { ...state, value: 5, message: "Resolved video ID" };
+
+        case "recording-ready":
+            return {
+                ...state,
+                value: 5,
+                message: event.duration
+                    ? `Read recording "${event.filename}" (${formatTimestamp(event.duration)})`
+                    : `Read recording "${event.filename}"`,
+            };
+
+        case "transcript-attempt":
+            return { ...state, value: TRANSCRIPT_START, message: `Extracting transcript via ${event.strategy}...` };
+
+        case "transcript-failed":
+            return { ...state, message: `${event.strategy} failed, trying next strategy...` };
+
+        case "transcript-success":
+            return {
+                ...state,
+                value: TRANSCRIPT_DONE - 5,
+                message: `Transcript ready via ${event.strategy} (${event.chars.toLocaleString()} chars)`,
+            };
+
+        case "cleanup":
+            return {
+                ...state,
+                message: event.charsSaved > 0
+                    ? `Cleaned up transcript (saved ${event.charsSaved.toLocaleString()} chars, ~${event.tokensSaved.toLocaleString()} tokens)`
+                    : "Transcript is already clean",
+            };
+
+        case "chunking":
+            return {
+                ...state,
+                value: TRANSCRIPT_DONE,
+                message: `Split transcript into ${event.totalChunks} part${event.totalChunks === 1 ? "" : "s"}`,
+                chunks: Array.from({ length: event.totalChunks }, () => ({ status: "pending" as const })),
+            };
+
+        case "outline-start":
+            return { ...state, value: TRANSCRIPT_DONE, message: "Planning the tutorial outline..." };
+
+        case "outline-done":
+            return {
+                ...state,
+                message: `Outline ready: ${event.sections} sections, writing ${event.concurrency} at a time`,
+                chunks: Array.from({ length: event.sections }, () => ({ status: "pending" as const })),
+                concurrency: event.concurrency,
+            };
+
+        case "chunk-start": {
+            const chunks = state.chunks.map((c, i) => (i === event.index ? { ...c, status: "active" as const } : c));
+            return {
+                ...state,
+                chunks,
+                value: chunkProgressValue(chunks),
+                message: state.concurrency > 1
+                    ? `Writing ${chunks.filter(c => c.status === "active").length} of ${event.total} sections in parallel...`
+                    : `Generating part ${event.index + 1} of ${event.total}...`,
+            };
+        }
+
+        case "chunk-done": {
+            const chunks = state.chunks.map((c, i) =>
+                i === event.index
+                    ? { status: "done" as const, model: event.model, durationMs: event.durationMs }
+                    : c
+            );
+            return {
+                ...state,
+                chunks,
+                value: chunkProgressValue(chunks),
+                message: `Finished part ${event.index + 1} of ${event.total} with ${event.model}`,
+                etaSeconds: estimateRemainingSeconds(chunks, state.concurrency),
+            };
+        }
+
+        case "verify-start":
+            return { ...state, value: 96, message: `Checking the code of ${event.steps} step${event.steps === 1 ? "" : "s"} against the video...` };
+
+        case "verify-skipped":
+            return { ...state, message: `Skipped code check: ${event.reason}` };
+
+        case "verify-done":
+            return {
+                ...state,
+                message: `Verified ${event.verified} code block${event.verified === 1 ? "" : "s"} against the video (${event.corrected} corrected)`,
+            };
+
+        case "screenshots-done":
+            return {
+                ...state,
+                value: 97,
+                message: event.attached > 0
+                    ? `Added ${event.attached} screenshot${event.attached === 1 ? "" : "s"}`
+                    : "No screenshots added",
+            };
+
+        case "merge-done":
+            return { ...state, value: 98, message: "Merged all parts", etaSeconds: 0 };
+
+        case "complete":
+            return { ...state, value: 100, message: "Complete!", etaSeconds: 0 };
+
+        case "error":
+            return { ...state, message: event.error, etaSeconds: null };
+    }
+}
@@ -0,0 +1,144 @@
+// Reader-facing options for a generation request. Shared by the home page
+// (form controls) and the server (prompt construction), so keep this file
+// free of server-only imports.
+
+export interface OutputLanguage {
+    code: string;
+    /** English name, used in prompts */
+    name: string;
+    /** Name in the language itself, used in the selector */
+    nativeName: string;
+    rtl?: boolean;
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+    { code: "en", name: "English", nativeName: "English" },
+    { code: "fr", name: "French", nativeName: "Français" },
+    { code: "es", name: "Spanish", nativeName: "Español" },
+    { code: "ar", name: "Arabic", nativeName: "العربية", rtl: true },
+    { code: "pt", name: "Portuguese", nativeName: "Português" },
+    { code: "hi", name: "Hindi", nativeName: "हिन्दी" },
+    { code: "de", name: "German", nativeName: "Deutsch" },
+    { code: "it", name: "Italian", nativeName: "Italiano" },
+    { code: "ru", name: "Russian", nativeName: "Русский" },
+    { code: "tr", name: "Turkish", nativeName: "Türkçe" },
+    { code: "ja", name: "Japanese", nativeName: "日本語" },
+    { code: "zh", name: "Chinese (Simplified)", nativeName: "简体中文" },
+];
+
+export const DEFAULT_OUTPUT_LANGUAGE = "en";
+
+export type AudienceLevel = "beginner" | "intermediate" | "expert";
+export type TargetLength = "summary" | "standard" | "exhaustive";
+
+export const AUDIENCE_LEVELS: { value: AudienceLevel; label: string }[] = [
+    { value: "beginner", label: "Beginner" },
+    { value: "intermediate", label: "Intermediate" },
+    { value: "expert", label: "Expert" },
+];
+
+export const TARGET_LENGTHS: { value: TargetLength; label: string }[] = [
+    { value: "summary", label: "Summary" },
+    { value: "standard", label: "Standard" },
+    { value: "exhaustive", label: "Exhaustive" },
+];
+
+export interface GenerationOptions {
+    /** Code from OUTPUT_LANGUAGES the tutorial is written in */
+    language: string;
+    audience: AudienceLevel;
+    length: TargetLength;
+    /** Explain the concepts behind each step, or only list the steps */
+    explainConcepts: boolean;
+    /** Check code blocks against video frames with a vision model (slower) */
+    verifyCode: boolean;
+    /** Attach a frame of the video to the steps where the screen matters */
+    screenshots: boolean;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+    language: DEFAULT_OUTPUT_LANGUAGE,
+    audience: "intermediate",
+    length: "standard",
+    explainConcepts: true,
+    verifyCode: false,
+    screenshots: false,
+};
+
+const AUDIENCE_PROMPTS: Record<AudienceLevel, string> = {
+    beginner: "The reader is a BEGINNER. Do not assume prior knowledge of the tools used: say what each command, package and language feature is for the first time it appears, spell out every step (including installs and where files go), and never skip \"obvious\" code.",
+    intermediate: "The reader is an INTERMEDIATE developer who knows the language and common tooling. Explain what is specific to this tutorial; skip basics such as installing Node or what a function is.",
+    expert: "The reader is an EXPERT. Be terse and precise: skip basics and setup boilerplate unless it is unusual, and focus on the non-obvious decisions, trade-offs and pitfalls.",
+};
+
+const LENGTH_PROMPTS: Record<TargetLength, string> = {
+    summary: "Target length: SUMMARY. Keep only the essential steps and the code needed to reproduce the result; merge small steps together and keep each explanation to one sentence.",
+    standard: "Target length: STANDARD. Cover every meaningful step with short explanations (2-3 sentences).",
+    exhaustive: "Target length: EXHAUSTIVE. Cover every step the transcript covers, including side remarks that are useful, alternatives the instructor mentions and troubleshooting tips; explanations may be as long as they need to be.",
+};
+
+export function getOutputLanguage(code: string): OutputLanguage | undefined {
+    return OUTPUT_LANGUAGES.find(language => language.code === code);
+}
+
+/**
+ * Read options from an untrusted request body, falling back to `defaults`
+ * for anything missing. Returns the problem as a string when a value is invalid.
+ */
+export function parseGenerationOptions(
+    raw: Record<string, unknown>,
+    defaults: GenerationOptions
+): { ok: true; value: GenerationOptions } | { ok: false; error: string } {
+    const language = raw.language ?? defaults.language;
+    const audience = raw.audience ?? defaults.audience;
+    const length = raw.length ?? defaults.length;
+    const explainConcepts = raw.explainConcepts ?? defaults.explainConcepts;
+    const verifyCode = raw.verifyCode ?? defaults.verifyCode;
+    const screenshots = raw.screenshots ?? defaults.screenshots;
+
+    if (typeof language !== "string" || !getOutputLanguage(language)) {
+        return { ok: false, error: `Unsupported output language "${language}".` };
+    }
+    if (!AUDIENCE_LEVELS.some(level => level.value === audience)) {
+        return { ok: false, error: `Invalid audience "${audience}". Use "beginner", "intermediate" or "expert".` };
+    }
+    if (!TARGET_LENGTHS.some(option => option.value === length)) {
+        return { ok: false, error: `Invalid length "${length}". Use "summary", "standard" or "exhaustive".` };
+    }
+    if (typeof explainConcepts !== "boolean") {
+        return { ok: false, error: "explainConcepts must be true or false." };
+    }
+    if (typeof verifyCode !== "boolean") {
+        return { ok: false, error: "verifyCode must be true or false." };
+    }
+    if (typeof screenshots !== "boolean") {
+        return { ok: false, error: "screenshots must be true or false." };
+    }
+
+    return {
+        ok: true,
+        value: { language, audience: audience as AudienceLevel, length: length as TargetLength, explainConcepts, verifyCode, screenshots },
+    };
+}
+
+/**
+ * Instructions appended to every prompt (outline, first, continuation and
+ * section) so the options apply whatever template is used
+ */
+export function buildOptionsPrompt(options: GenerationOptions): string {
+    const language = getOutputLanguage(options.language)?.name ?? options.language;
+
+    const concepts = options.explainConcepts
+        ? "Explain the concepts behind each step: why it is done this way and how it fits the whole."
+        : "Do NOT explain concepts: list the steps with at most one sentence each saying what to do. Leave `notes` empty unless something would break without it.";
+
+    return `## AUDIENCE AND DEPTH
+These preferences override any conflicting length or tone guidance above.
+- ${AUDIENCE_PROMPTS[options.audience]}
+- ${LENGTH_PROMPTS[options.length]}
+- ${concepts}
+
+## OUTPUT LANGUAGE
+Write every human-readable field (titles, overview, prerequisites, descriptions, explanations, notes, summary, next steps) in ${language}, whatever language the transcript is in.
+Do NOT translate code: code blocks (including comments and string literals), identifiers, file names, commands, package names, and anything in \`inline code\` stay exactly as the instructor wrote them. JSON keys stay in English.`;
+}
@@ -0,0 +1,404 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import Groq from "groq-sdk";
+
+export type ProviderId = "gemini" | "groq" | "openai" | "mock";
+
+/**
+ * A text-generation backend. Adapters only translate a prompt into a call
+ * against their API; fallback between models is handled by the caller.
+ */
+export interface LLMProvider {
+    id: ProviderId;
+    /** Whether the credentials / endpoint this adapter needs are present */
+    isConfigured(): boolean;
+    /** Models tried, in order, when LLM_MODELS does not say otherwise */
+    defaultModels(): string[];
+    generate(model: string, prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+export interface GenerateOptions {
+    /** Ask the backend for a bare JSON object, when it supports a JSON mode */
+    json?: boolean;
+    /** Images sent along with the prompt; only vision-capable models accept them */
+    images?: ImageInput[];
+    /** Cancels the request, e.g. once the rest of the generation has failed */
+    signal?: AbortSignal;
+}
+
+export interface ImageInput {
+    mimeType: string;
+    /** Base64-encoded image data, without a `data:` prefix */
+    data: string;
+}
+
+/** A single provider/model pair in the fallback chain */
+export interface ModelTarget {
+    provider: ProviderId;
+    model: string;
+}
+
+/**
+ * Error raised by adapters that talk HTTP directly, carrying the response
+ * status so quota and availability errors can be told apart.
+ */
+export class ProviderRequestError extends Error {
+    status?: number;
+    /** Parsed from the Retry-After response header, when present */
+    retryAfterMs?: number;
+
+    constructor(message: string, status?: number, retryAfterMs?: number) {
+        super(message);
+        this.name = "ProviderRequestError";
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Parse a comma-separated env var into a trimmed, non-empty list */
+function parseList(value: string | undefined): string[] {
+    return (value || "")
+        .split(",")
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+/** Chat message content: plain text, or text followed by images in the OpenAI format */
+function chatContent(prompt: string, images: ImageInput[] = []) {
+    if (images.length === 0) return prompt;
+    return [
+        { type: "text" as const, text: prompt },
+        ...images.map(image => ({
+            type: "image_url" as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+    ];
+}
+
+const DEFAULT_GEMINI_MODELS = [
+    "gemini-2.5-flash",
+    "gemini-2.5-flash-lite",
+    "gemini-3-flash",
+    "gemini-2.0-flash",
+    "gemini-1.5-flash",
+];
+
+const DEFAULT_GROQ_MODELS = [
+    "llama-3.3-70b-versatile",
+    "llama-3.1-8b-instant",
+];
+
+let geminiClient: GoogleGenerativeAI | null = null;
+let groqClient: Groq | null = null;
+
+const geminiProvider: LLMProvider = {
+    id: "gemini",
+    isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+    defaultModels: () => parseList(process.env.GEMINI_MODELS).length > 0
+        ? parseList(process.env.GEMINI_MODELS)
+        : DEFAULT_GEMINI_MODELS,
+    async generate(model, prompt, options = {}) {
+        geminiClient ??= new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+        const result = await geminiClient
+            .getGenerativeModel({
+                model,
+                generationConfig: options.json ? { responseMimeType: "application/json" } : undefined,
+            })
+            .generateContent([
+                prompt,
+                ...(options.images ?? []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+            ], { signal: options.signal });
+        const response = await result.response;
+        return response.text();
+    },
+};
+
+const groqProvider: LLMProvider = {
+    id: "groq",
+    isConfigured: () => Boolean(process.env.GROQ_API_KEY),
+    defaultModels: () => parseList(process.env.GROQ_MODELS).length > 0
+        ? parseList(process.env.GROQ_MODELS)
+        : DEFAULT_GROQ_MODELS,
+    async generate(model, prompt, options = {}) {
+        // Retries are disabled here: falling back to another model is the caller's job
+        groqClient ??= new Groq({ apiKey: process.env.GROQ_API_KEY, maxRetries: 0 });
+        const completion = await groqClient.chat.completions.create({
+            model,
+            messages: [{ role: "user", content: chatContent(prompt, options.images) }],
+            ...(options.json ? { response_format: { type: "json_object" as const } } : {}),
+        }, { signal: options.signal });
+        return completion.choices[0]?.message?.content || "";
+    },
+};
+
+/**
+ * Any server exposing the OpenAI chat completions API: OpenAI itself,
+ * a local Ollama (`http://localhost:11434/v1`), llama.cpp's server, vLLM...
+ */
+const openAICompatibleProvider: LLMProvider = {
+    id: "openai",
+    isConfigured: () => Boolean(process.env.OPENAI_COMPATIBLE_BASE_URL),
+    defaultModels: () => parseList(process.env.OPENAI_COMPATIBLE_MODELS),
+    async generate(model, prompt, options = {}) {
+        const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || "").replace(/\/+$/, "");
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+            headers["Authorization"] = `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}`;
+        }
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+                model,
+                messages: [{ role: "user", content: chatContent(prompt, options.images) }],
+                ...(options.json ? { response_format: { type: "json_object" } } : {}),
+            }),
+            signal: options.signal,
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new ProviderRequestError(
+                `OpenAI-compatible endpoint returned ${response.status}: ${errorText.slice(0, 300)}`,
+                response.status,
+                parseRetryAfter(response.headers.get("retry-after"))
+            );
+        }
+
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content || "";
+    },
+};
+
+/**
+ * Deterministic offline provider: builds a small JSON tutorial from the
+ * transcript embedded in the prompt. The same prompt always yields the same
+ * output, which makes it suitable for tests and air-gapped development.
+ */
+const mockProvider: LLMProvider = {
+    id: "mock",
+    // Only used when explicitly listed, never picked up implicitly
+    isConfigured: () => true,
+    defaultModels: () => ["mock-tutorial"],
+    async generate(_model, prompt) {
+        if (prompt.includes("## OUTLINE REQUEST")) return renderMockOutline(prompt);
+        if (prompt.includes("## CODE VERIFICATION")) return renderMockVerification(prompt);
+        if (prompt.includes("## TRANSCRIPT FOR SECTION")) return renderMockSection(prompt);
+        return renderMockTutorial(prompt);
+    },
+};
+
+function mockTranscriptWords(prompt: string): string[] {
+    const transcriptMatch = prompt.match(/---\n\n([\s\S]*?)\n\n---\nEND OF TRANSCRIPT SECTION/);
+    return (transcriptMatch ? transcriptMatch[1] : "").split(/\s+/).filter(Boolean);
+}
+
+function mockSection(title: string, words: string[]) {
+    return {
+        title,
+        description: "",
+        steps: [
+            {
+                title: "Review the transcript",
+                // Cite the first [m:ss] marker, like a real model would
+                timestamp: words.find(word => /^\[\d+(:\d{2})+\]$/.test(word)) ?? null,
+                explanation: words.slice(0, 60).join(" "),
+                codeBlocks: [
+                    { language: "bash", filename: null, code: `echo "mock step (${words.length} words)"` },
+                ],
+                notes: [],
+                screenshot: true,
+            },
+        ],
+    };
+}
+
+/** Plan one section per four transcript blocks */
+function renderMockOutline(prompt: string): string {
+    const blockCount = (prompt.match(/^\[B\d+ @/gm) || []).length || 1;
+    const sections = [];
+    for (let start = 1; start <= blockCount; start += 4) {
+        sections.push({
+            title: `Mock Section ${sections.length + 1}`,
+            summary: `Covers transcript blocks ${start}-${Math.min(blockCount, start + 3)}.`,
+            startBlock: start,
+            endBlock: Math.min(blockCount, start + 3),
+        });
+    }
+
+    return JSON.stringify({
+        title: "Mock Tutorial",
+        overview: `This tutorial was produced by the mock provider from ${blockCount} transcript blocks.`,
+        prerequisites: ["None"],
+        sections,
+        summary: ["Generated deterministically by the mock provider."],
+        nextSteps: ["Configure a real provider to generate a full tutorial."],
+    });
+}
+
+function renderMockSection(prompt: string): string {
+    const title = prompt.match(/## TRANSCRIPT FOR SECTION \d+: "([^"]+)"/)?.[1] || "Mock Section";
+    return JSON.stringify(mockSection(title, mockTranscriptWords(prompt)));
+}
+
+/** Confirm every code block as shown on screen, unchanged */
+function renderMockVerification(prompt: string): string {
+    const blocks = [...prompt.matchAll(/^### Block (\d+).*\n````[^\n]*\n([\s\S]*?)\n````$/gm)];
+    return JSON.stringify({
+        blocks: blocks.map(match => ({ block: Number(match[1]), visible: true, code: match[2] })),
+    });
+}
+
+function renderMockTutorial(prompt: string): string {
+    const partMatch = prompt.match(/\(Part (\d+) of (\d+)\)/);
+    const part = partMatch ? Number(partMatch[1]) : 1;
+    const total = partMatch ? Number(partMatch[2]) : 1;
+
+    const words = mockTranscriptWords(prompt);
+    const headline = words.slice(0, 6).join(" ") || "Transcript";
+    const isLast = part === total;
+
+    const continuation = {
+        sections: [mockSection(headline, words)],
+        summary: isLast ? ["Generated deterministically by the mock provider."] : [],
+        nextSteps: isLast ? ["Configure a real provider to generate a full tutorial."] : [],
+    };
+
+    if (part > 1) return JSON.stringify(continuation);
+
+    return JSON.stringify({
+        title: `Mock Tutorial: ${headline}`,
+        overview: `This tutorial was produced by the mock provider from ${words.length} transcript words.`,
+        prerequisites: ["None"],
+        ...continuation,
+    });
+}
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+    gemini: geminiProvider,
+    groq: groqProvider,
+    openai: openAICompatibleProvider,
+    mock: mockProvider,
+};
+
+export function getProvider(id: ProviderId): LLMProvider {
+    return PROVIDERS[id];
+}
+
+function isProviderId(value: string): value is ProviderId {
+    return value in PROVIDERS;
+}
+
+/**
+ * Resolve the ordered list of provider/model pairs to try.
+ *
+ * - `LLM_MODELS` lists explicit `provider:model` pairs, e.g.
+ *   `groq:llama-3.3-70b-versatile,openai:llama3.1:8b,gemini:gemini-2.5-flash`
+ * - Otherwise `LLM_PROVIDERS` orders whole providers (each with its default models)
+ * - Otherwise every provider with credentials is used: gemini, groq, openai
+ *
+ * Unconfigured providers are skipped so a missing key never causes a call.
+ */
+export function getModelChain(): ModelTarget[] {
+    const explicit = parseList(process.env.LLM_MODELS);
+
+    if (explicit.length > 0) {
+        return parseModelTargets(explicit, "LLM_MODELS");
+    }
+
+    const providerOrder = parseList(process.env.LLM_PROVIDERS);
+    const providerIds = providerOrder.length > 0
+        ? providerOrder.filter(isProviderId)
+        : (["gemini", "groq", "openai"] as ProviderId[]);
+
+    return providerIds
+        .map(id => PROVIDERS[id])
+        .filter(provider => provider.isConfigured())
+        .flatMap(provider => provider.defaultModels().map(model => ({ provider: provider.id, model })));
+}
+
+/** `provider:model` entries of an env var, keeping only configured providers */
+function parseModelTargets(entries: string[], envName: string): ModelTarget[] {
+    const targets: ModelTarget[] = [];
+    for (const entry of entries) {
+        const separator = entry.indexOf(":");
+        const provider = separator === -1 ? "" : entry.slice(0, separator);
+        const model = entry.slice(separator + 1);
+
+        if (!isProviderId(provider) || !model) {
+            console.warn(`[LLM] Ignoring invalid ${envName} entry: ${entry}`);
+            continue;
+        }
+        if (PROVIDERS[provider].isConfigured()) {
+            targets.push({ provider, model });
+        }
+    }
+    return targets;
+}
+
+/**
+ * Resolve the models used for requests that include images.
+ *
+ * - `VISION_MODELS` lists explicit `provider:model` pairs, e.g.
+ *   `groq:meta-llama/llama-4-scout-17b-16e-instruct,openai:llava:13b`
+ * - Otherwise the Gemini (and mock) models of the text chain: every Gemini
+ *   model accepts images, while only some Groq / OpenAI-compatible ones do
+ */
+export function getVisionModelChain(): ModelTarget[] {
+    const explicit = parseList(process.env.VISION_MODELS);
+    if (explicit.length > 0) return parseModelTargets(explicit, "VISION_MODELS");
+
+    return getModelChain().filter(target => target.provider === "gemini" || target.provider === "mock");
+}
+
+/** Token limits of a model: total context window and maximum generated tokens */
+export interface ModelLimits {
+    contextTokens: number;
+    maxOutputTokens: number;
+}
+
+// Matched by prefix, most specific first
+const KNOWN_MODEL_LIMITS: [string, ModelLimits][] = [
+    ["gemini-2.5", { contextTokens: 1_048_576, maxOutputTokens: 65_536 }],
+    ["gemini-3", { contextTokens: 1_048_576, maxOutputTokens: 65_536 }],
+    ["gemini-2.0", { contextTokens: 1_048_576, maxOutputTokens: 8_192 }],
+    ["gemini-1.5", { contextTokens: 1_048_576, maxOutputTokens: 8_192 }],
+    ["llama-3.3-70b", { contextTokens: 131_072, maxOutputTokens: 32_768 }],
+    ["llama-3.1-8b", { contextTokens: 131_072, maxOutputTokens: 8_192 }],
+    ["mock", { contextTokens: 8_192, maxOutputTokens: 2_048 }],
+];
+
+// Conservative default for unknown (typically local) models
+const DEFAULT_MODEL_LIMITS: ModelLimits = { contextTokens: 8_192, maxOutputTokens: 2_048 };
+
+/**
+ * Look up a model's token limits. `MODEL_CONTEXT_TOKENS` / `MODEL_MAX_OUTPUT_TOKENS`
+ * override the default used for models not in the table (e.g. a local Ollama model).
+ */
+export function getModelLimits(target: ModelTarget): ModelLimits {
+    const known = KNOWN_MODEL_LIMITS.find(([prefix]) => target.model.startsWith(prefix));
+    if (known) return known[1];
+
+    return {
+        contextTokens: Number(process.env.MODEL_CONTEXT_TOKENS) || DEFAULT_MODEL_LIMITS.contextTokens,
+        maxOutputTokens: Number(process.env.MODEL_MAX_OUTPUT_TOKENS) || DEFAULT_MODEL_LIMITS.maxOutputTokens,
+    };
+}
+
+/** Human-readable label used in logs and progress events */
+export function formatModelTarget(target: ModelTarget): string {
+    return `${target.provider}:${target.model}`;
+}
@@ -0,0 +1,206 @@
+import { CircuitBreaker, type BreakerStatus } from "@/app/lib/circuitBreaker";
+import {
+    formatModelTarget,
+    getModelChain,
+    getProvider,
+    parseRetryAfter,
+    type GenerateOptions,
+    type ModelTarget,
+} from "@/app/lib/llmProviders";
+
+// Cooldown windows applied when a model's circuit opens
+const QUOTA_COOLDOWN_MS = 60 * 1000;
+const TRANSIENT_COOLDOWN_MS = 30 * 1000;
+const UNUSABLE_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Retries against the same model before its circuit is opened
+const MAX_TRANSIENT_RETRIES = 2;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 15 * 1000;
+
+/**
+ * How a failed call should be handled:
+ * - quota:     rate limited, open the circuit for Retry-After (or the default)
+ * - transient: network error / 5xx / unknown, retry with backoff, then move on
+ * - unusable:  bad key, unknown model... open the circuit for a long time
+ * - fatal:     the provider rejected the request itself, no other model will do better
+ */
+type FailureKind = "quota" | "transient" | "unusable" | "fatal";
+
+// Bad request, payload too large, unprocessable: the prompt or options are at fault
+const REQUEST_ERROR_STATUSES = [400, 413, 422];
+
+interface ProviderErrorShape {
+    status?: number;
+    message?: string;
+    retryAfterMs?: number;
+    headers?: Record<string, string | null | undefined> | Headers;
+    errorDetails?: { "@type"?: string; retryDelay?: string }[];
+}
+
+const breaker = new CircuitBreaker();
+
+export interface GenerationResult {
+    text: string;
+    /** The `provider:model` that actually produced `text` */
+    model: string;
+}
+
+export interface ModelStatus extends BreakerStatus {
+    provider: string;
+    model: string;
+}
+
+function classifyError(err: ProviderErrorShape): FailureKind {
+    const message = (err.message || "").toLowerCase();
+
+    if (err.status === 429 || message.includes("quota") || message.includes("resource exhausted")) {
+        return "quota";
+    }
+    if (err.status === 401 || err.status === 403 || err.status === 404) {
+        return "unusable";
+    }
+    if (err.status !== undefined && REQUEST_ERROR_STATUSES.includes(err.status)) {
+        return "fatal";
+    }
+    // 5xx, network errors and anything unrecognised (a malformed response, an
+    // SDK error without a status...): nothing says the next model would fail too
+    return "transient";
+}
+
+/**
+ * Find how long the provider asked us to wait, from (in order) an explicit
+ * field, a Retry-After header, Gemini's RetryInfo detail, or the message text
+ */
+function getRetryAfterMs(err: ProviderErrorShape): number | undefined {
+    if (err.retryAfterMs !== undefined) return err.retryAfterMs;
+
+    if (err.headers) {
+        const header = err.headers instanceof Headers
+            ? err.headers.get("retry-after")
+            : err.headers["retry-after"];
+        const fromHeader = parseRetryAfter(header);
+        if (fromHeader !== undefined) return fromHeader;
+    }
+
+    const retryInfo = err.errorDetails?.find(d => d["@type"]?.endsWith("RetryInfo"));
+    const delay = retryInfo?.retryDelay?.match(/^([\d.]+)s$/);
+    if (delay) return Number(delay[1]) * 1000;
+
+    const inMessage = err.message?.match(/retry in ([\d.]+)s/i);
+    if (inMessage) return Number(inMessage[1]) * 1000;
+
+    return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt]
+ */
+function backoffDelay(attempt: number): number {
+    const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+}
+
+/** Wait `ms`, or until `signal` is aborted */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener("abort", done, { once: true });
+    });
+}
+
+/**
+ * Call one model, retrying transient failures with backoff.
+ * Returns null when the model failed and the next one should be tried.
+ */
+async function tryModel(
+    target: ModelTarget,
+    prompt: string,
+    options: GenerateOptions,
+    errors: string[]
+): Promise<string | null> {
+    const key = formatModelTarget(target);
+
+    for (let attempt = 0; ; attempt++) {
+        if (options.signal?.aborted) {
+            breaker.release(key);
+            throw options.signal.reason;
+        }
+
+        try {
+            const text = await getProvider(target.provider).generate(target.model, prompt, options);
+            breaker.recordSuccess(key);
+            return text;
+        } catch (error: unknown) {
+            const err = error as ProviderErrorShape;
+            const kind = classifyError(err);
+            const message = err.message || String(error);
+
+            // A cancelled request says nothing about the model
+            if (kind === "fatal" || options.signal?.aborted) {
+                breaker.release(key);
+                throw error;
+            }
+
+            if (kind === "transient" && attempt < MAX_TRANSIENT_RETRIES) {
+                const delay = backoffDelay(attempt);
+                console.log(`[LLM] ${key} transient error (${message}), retrying in ${delay}ms...`);
+                // An abort cuts the wait short and is handled at the top of the loop
+                await sleep(delay, options.signal);
+                continue;
+            }
+
+            const cooldown = kind === "quota"
+                ? getRetryAfterMs(err) ?? QUOTA_COOLDOWN_MS
+                : kind === "unusable" ? UNUSABLE_COOLDOWN_MS : TRANSIENT_COOLDOWN_MS;
+
+            console.log(`[LLM] ${key} failed (${kind}), opening circuit for ${Math.round(cooldown / 1000)}s`);
+            breaker.recordFailure(key, cooldown, message);
+            errors.push(`${key}: ${message}`);
+            return null;
+        }
+    }
+}
+
+/**
+ * Generate content, walking the model chain (the configured one unless
+ * another is given) and skipping any model whose circuit is open
+ */
+export async function generateWithFallback(
+    prompt: string,
+    options: GenerateOptions = {},
+    chain: ModelTarget[] = getModelChain()
+): Promise<GenerationResult> {
+    const errors: string[] = [];
+
+    for (const target of chain) {
+        const key = formatModelTarget(target);
+        if (!breaker.tryAcquire(key)) continue;
+
+        console.log(`[LLM] Using model: ${key}`);
+        const text = await tryModel(target, prompt, options, errors);
+        if (text !== null) {
+            return { text, model: key };
+        }
+    }
+
+    const retryAt = breaker.nextRetryAt(chain.map(formatModelTarget));
+    const wait = retryAt ? ` Next model available in ${Math.ceil((retryAt - Date.now()) / 1000)}s.` : "";
+    throw new Error(`All models are currently unavailable.${wait}${errors.length > 0 ? `\n${errors.join("\n")}` : ""}`);
+}
+
+/**
+ * Circuit state of every model in the configured chain
+ */
+export function getModelStatuses(): ModelStatus[] {
+    return getModelChain().map(target => ({
+        ...breaker.status(formatModelTarget(target)),
+        provider: target.provider,
+        model: target.model,
+    }));
+}
@@ -0,0 +1,108 @@
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+
+// A streaming reader for multipart/form-data bodies. `request.formData()`
+// holds the whole body in memory before anything can look at it, which is
+// not an option for recordings of several hundred megabytes: here each part
+// is handed over as a stream as soon as its headers have arrived, and the
+// next part is only read once that stream has been consumed.
+
+/** Text fields larger than this are refused; an uploaded transcript is sent in one */
+export const MAX_FIELD_BYTES = 16 * 1024 * 1024;
+
+const MAX_HEADER_BYTES = 16 * 1024;
+
+export interface FormPart {
+    name: string;
+    /** File name as sent by the browser; null for text fields */
+    filename: string | null;
+    /** The part's content. Must be read to the end (or abandoned with the request) before the next part */
+    stream: Readable;
+}
+
+function headerParam(header: string, param: string): string | null {
+    const match = new RegExp(`(?:^|;)\\s*${param}="([^"]*)"`, "i").exec(header);
+    return match ? match[1] : null;
+}
+
+/**
+ * The parts of a multipart/form-data `body`, in the order they were sent.
+ * Throws when `contentType` has no boundary or the body is cut short.
+ */
+export async function* readMultipartForm(
+    body: ReadableStream<Uint8Array>,
+    contentType: string
+): AsyncGenerator<FormPart> {
+    const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    if (!boundary) throw new Error("No multipart boundary");
+
+    const source = Readable.fromWeb(body as WebReadableStream<Uint8Array>)[Symbol.asyncIterator]();
+    // Parts are separated by CRLF + "--boundary"; the first one has no CRLF
+    // before it, so one is added to find it the same way
+    const delimiter = Buffer.from(`\r\n--${boundary[1] ?? boundary[2]}`);
+    let pending = Buffer.from("\r\n");
+
+    const pull = async (): Promise<void> => {
+        const { value, done } = await source.next();
+        if (done) throw new Error("The upload ended before the form did");
+        pending = Buffer.concat([pending, value as Buffer]);
+    };
+
+    // Bytes up to the next delimiter. The last delimiter.length - 1 bytes are
+    // held back until more arrive, since a delimiter may start in them
+    async function* untilDelimiter(): AsyncGenerator<Buffer> {
+        for (;;) {
+            const index = pending.indexOf(delimiter);
+            if (index !== -1) {
+                if (index > 0) yield pending.subarray(0, index);
+                pending = pending.subarray(index + delimiter.length);
+                return;
+            }
+
+            const safe = pending.length - (delimiter.length - 1);
+            if (safe > 0) {
+                const chunk = pending.subarray(0, safe);
+                pending = pending.subarray(safe);
+                yield chunk;
+            }
+            await pull();
+        }
+    }
+
+    // Anything before the first delimiter is preamble
+    for await (const chunk of untilDelimiter()) void chunk;
+
+    for (;;) {
+        while (pending.length < 2) await pull();
+        // "--" right after a delimiter closes the form
+        if (pending.subarray(0, 2).toString() === "--") return;
+
+        let headerEnd = pending.indexOf("\r\n\r\n");
+        while (headerEnd === -1) {
+            if (pending.length > MAX_HEADER_BYTES) throw new Error("Form part headers are too large");
+            await pull();
+            headerEnd = pending.indexOf("\r\n\r\n");
+        }
+        const headers = pending.subarray(0, headerEnd).toString("utf8");
+        pending = pending.subarray(headerEnd + 4);
+
+        const disposition = /^content-disposition:(.*)$/im.exec(headers)?.[1] ?? "";
+        const stream = Readable.from(untilDelimiter(), { objectMode: false });
+        yield { name: headerParam(disposition, "name") ?? "", filename: headerParam(disposition, "filename"), stream };
+
+        // Skip whatever the caller left of the part
+        for await (const chunk of stream) void chunk;
+    }
+}
+
+/** Content of a text field, refused over `maxBytes` */
+export async function readFormField(part: FormPart, maxBytes = MAX_FIELD_BYTES): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of part.stream) {
+        size += chunk.length;
+        if (size > maxBytes) throw new Error(`Form field "${part.name}" is too large`);
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+}
@@ -0,0 +1,393 @@
+import type { TranscriptChapter, TranscriptSegment } from "@/app/lib/transcriptUtils";
+import type { GenerationEvent } from "@/app/lib/generationEvents";
+import {
+    chapterRanges,
+    chunkTranscript,
+    estimateTokens,
+    hasTimings,
+    timestampedText,
+    type TranscriptChunk,
+} from "@/app/lib/chunkingUtils";
+import { generateStructured } from "@/app/lib/structuredGeneration";
+import { formatTimestamp } from "@/app/lib/timestamps";
+import { mergeTutorialParts } from "@/app/lib/tutorialMerge";
+import { anchorSections } from "@/app/lib/tutorialTimeline";
+import { buildOptionsPrompt, type GenerationOptions } from "@/app/lib/generationOptions";
+import { frameTranscript, renderTemplatePart, type PromptTemplate } from "@/app/lib/promptTemplates";
+import {
+    validateTutorialSection,
+    type TutorialDocument,
+    type ValidationResult,
+} from "@/app/lib/tutorialSchema";
+
+export interface OutlineSection {
+    title: string;
+    summary: string;
+    /** 1-based, inclusive range of transcript blocks covered */
+    startBlock: number;
+    endBlock: number;
+}
+
+export interface TutorialOutline {
+    title: string;
+    overview: string;
+    prerequisites: string[];
+    sections: OutlineSection[];
+    summary: string[];
+    nextSteps: string[];
+}
+
+/** An outline section resolved to the transcript segments it covers */
+interface SectionRange {
+    title: string;
+    summary: string;
+    /** Segment indices, `to` exclusive */
+    from: number;
+    to: number;
+}
+
+interface PlannedSection {
+    number: number;
+    title: string;
+    summary: string;
+    text: string;
+    /** Video time range covered, in seconds */
+    start: number;
+    end: number;
+}
+
+// Target number of labelled blocks shown to the model when outlining
+const TARGET_BLOCKS = 120;
+const MIN_BLOCK_TOKENS = 200;
+
+const DEFAULT_CONCURRENCY = 3;
+
+// With at least this many chapters the author's chapters become the sections
+export const MIN_OUTLINE_CHAPTERS = 2;
+
+const OUTLINE_PROMPT = `You are planning a technical tutorial that will be written from a YouTube video transcript.
+
+## OUTLINE REQUEST
+The transcript below is split into numbered blocks like [B12 @ 14:05]. Long blocks are abbreviated with "...".
+Plan the tutorial as an ordered list of major sections. Each section covers a contiguous range of blocks.
+
+## RULES
+1. Sections must be in transcript order, must not overlap, and together must cover every block
+2. Prefer 3-12 sections; each section is one coherent topic (a file, a feature, a setup phase...)
+3. Section titles are short and specific ("Configure the Prisma Schema", not "Part 2")
+4. Ignore intros, sponsor segments and outros when naming sections
+
+## OUTPUT FORMAT
+Respond with ONLY a JSON object, no markdown fences, matching:
+{
+  "title": "Tutorial title inferred from the content",
+  "overview": "2-3 sentences: what we're building and why it matters",
+  "prerequisites": ["required knowledge, tools, versions"],
+  "sections": [
+    { "title": "Section title", "summary": "One sentence describing the section", "startBlock": 1, "endBlock": 4 }
+  ],
+  "summary": ["key takeaway"],
+  "nextSteps": ["where to go from here"]
+}`;
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, keeping result order.
+ * The first failure (or `parent` being aborted) aborts `signal`: no other item
+ * is started, and calls in flight should pass the signal on to stop their own work.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    parent?: AbortSignal
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(parent?.reason);
+    parent?.addEventListener("abort", onAbort, { once: true });
+    if (parent?.aborted) onAbort();
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length && !controller.signal.aborted) {
+            const index = nextIndex++;
+            try {
+                results[index] = await fn(items[index], index, controller.signal);
+            } catch (err) {
+                controller.abort(err);
+                throw err;
+            }
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    } finally {
+        parent?.removeEventListener("abort", onAbort);
+    }
+    controller.signal.throwIfAborted();
+    return results;
+}
+
+export function getGenerationConcurrency(): number {
+    return Math.max(1, Number(process.env.GENERATION_CONCURRENCY) || DEFAULT_CONCURRENCY);
+}
+
+/**
+ * Split the transcript into small labelled blocks, abbreviated so the
+ * whole video fits in one outline prompt
+ */
+function buildOutlineBlocks(
+    segments: TranscriptSegment[],
+    chapters: TranscriptChapter[],
+    tokenBudget: number
+): { blocks: TranscriptChunk[]; listing: string } {
+    const totalTokens = segments.reduce((sum, seg) => sum + estimateTokens(seg.text) + 1, 0);
+    const blockTokens = Math.max(MIN_BLOCK_TOKENS, Math.ceil(totalTokens / TARGET_BLOCKS));
+    const blocks = chunkTranscript(segments, { tokenBudget: blockTokens, chapters, overlapTokens: 0 });
+
+    // Every block gets an equal share of the prompt budget
+    const charsPerBlock = Math.max(80, Math.floor((tokenBudget * 4) / blocks.length));
+
+    const listing = blocks
+        .map((block, i) => {
+            const text = block.text.length > charsPerBlock
+                ? `${block.text.slice(0, charsPerBlock)}...`
+                : block.text;
+            return `[B${i + 1} @ ${formatTimestamp(block.start)}] ${text}`;
+        })
+        .join("\n\n");
+
+    return { blocks, listing };
+}
+
+function validateOutline(raw: unknown): ValidationResult<TutorialOutline> {
+    if (typeof raw !== "object" || raw === null) {
+        return { ok: false, errors: ["response must be a JSON object"] };
+    }
+
+    const data = raw as Record<string, unknown>;
+    const strings = (value: unknown): string[] =>
+        Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+
+    if (!Array.isArray(data.sections) || data.sections.length === 0) {
+        return { ok: false, errors: ["sections must be a non-empty array"] };
+    }
+
+    const errors: string[] = [];
+    const sections = data.sections.map((s: Partial<OutlineSection>, i: number) => {
+        if (typeof s.title !== "string") errors.push(`sections[${i}].title must be a string`);
+        if (!Number.isFinite(Number(s.startBlock))) errors.push(`sections[${i}].startBlock must be a number`);
+        return {
+            title: typeof s.title === "string" ? s.title : "",
+            summary: typeof s.summary === "string" ? s.summary : "",
+            startBlock: Number(s.startBlock) || 1,
+            endBlock: Number(s.endBlock) || Number(s.startBlock) || 1,
+        };
+    });
+
+    if (errors.length > 0) return { ok: false, errors };
+
+    return {
+        ok: true,
+        value: {
+            title: typeof data.title === "string" ? data.title : "Tutorial",
+            overview: typeof data.overview === "string" ? data.overview : "",
+            prerequisites: strings(data.prerequisites),
+            sections,
+            summary: strings(data.summary),
+            nextSteps: strings(data.nextSteps),
+        },
+    };
+}
+
+/**
+ * Make section ranges contiguous, ordered and covering every block:
+ * each section starts right after the previous one and the last one runs
+ * to the end. Sections left empty by this are dropped.
+ */
+function normalizeSections(sections: OutlineSection[], blockCount: number): OutlineSection[] {
+    const sorted = [...sections].sort((a, b) => a.startBlock - b.startBlock);
+    const result: OutlineSection[] = [];
+    let nextStart = 1;
+
+    sorted.forEach((section, i) => {
+        const isLast = i === sorted.length - 1;
+        const end = isLast ? blockCount : Math.min(blockCount, Math.max(section.endBlock, nextStart));
+        if (end < nextStart) return;
+
+        result.push({ ...section, startBlock: nextStart, endBlock: end });
+        nextStart = end + 1;
+    });
+
+    // The last kept section absorbs anything dropped after it
+    if (result.length > 0) {
+        result[result.length - 1].endBlock = blockCount;
+    }
+
+    return result;
+}
+
+/**
+ * Turn section ranges into numbered prompts-to-be, splitting any section
+ * whose transcript exceeds the chunk budget into consecutive parts
+ */
+function planSections(
+    ranges: SectionRange[],
+    segments: TranscriptSegment[],
+    tokenBudget: number
+): PlannedSection[] {
+    const planned: PlannedSection[] = [];
+    const timed = hasTimings(segments);
+
+    for (const section of ranges) {
+        const { from, to } = section;
+        const parts = chunkTranscript(segments.slice(from, to), { tokenBudget, overlapTokens: 0 });
+
+        parts.forEach((part, i) => {
+            planned.push({
+                number: planned.length + 1,
+                title: parts.length > 1 ? `${section.title} (Part ${i + 1})` : section.title,
+                summary: section.summary,
+                text: timed ? timestampedText(segments, from + part.startSegment, from + part.endSegment) : part.text,
+                start: part.start,
+                end: part.end,
+            });
+        });
+    }
+
+    return planned;
+}
+
+/**
+ * Tell the outline call to keep the author's chapters as its sections; the
+ * sections it returns are then replaced by the chapters themselves
+ */
+function chaptersPrompt(chapters: TranscriptChapter[]): string {
+    const list = chapters.map((chapter, i) => `${i + 1}. [${formatTimestamp(chapter.start)}] ${chapter.title}`).join("\n");
+    return `## CHAPTERS
+The video's author split it into the chapters below. Use exactly one section per chapter, in this order and with these titles (only fix obvious typos or capitalisation); give each a one-sentence summary.
+${list}`;
+}
+
+async function generateOutline(
+    listing: string,
+    optionsPrompt: string,
+    chapters: TranscriptChapter[],
+    signal?: AbortSignal
+): Promise<TutorialOutline> {
+    const prompt = `${OUTLINE_PROMPT}
+${chapters.length > 0 ? `\n${chaptersPrompt(chapters)}\n` : ""}
+---
+## TRANSCRIPT BLOCKS
+---
+
+${listing}
+
+---
+END OF TRANSCRIPT SECTION
+---
+
+${optionsPrompt}`;
+
+    const { value } = await generateStructured(prompt, validateOutline, "Outline", { signal });
+    return value;
+}
+
+/**
+ * Two-phase generation: plan one global outline mapped to transcript
+ * ranges, then write every section in parallel and stitch them together.
+ * When the video has chapters, they are the sections (one per chapter, in
+ * order, with the author's titles) and the outline only adds front matter.
+ */
+export async function generateOutlineFirst(
+    segments: TranscriptSegment[],
+    chapters: TranscriptChapter[],
+    tokenBudget: number,
+    template: PromptTemplate,
+    options: GenerationOptions,
+    send: (event: GenerationEvent) => void,
+    signal?: AbortSignal
+): Promise<{ document: TutorialDocument; sectionsProcessed: number }> {
+    send({ type: "outline-start" });
+    const optionsPrompt = buildOptionsPrompt(options);
+
+    const { blocks, listing } = buildOutlineBlocks(segments, chapters, tokenBudget);
+    const byChapter = chapterRanges(segments, chapters.length >= MIN_OUTLINE_CHAPTERS ? chapters : []);
+    const outline = await generateOutline(listing, optionsPrompt, byChapter.map(range => range.chapter), signal);
+
+    let ranges: SectionRange[];
+    if (byChapter.length > 0) {
+        // Summaries are only trusted when the model kept one section per chapter
+        const keptChapters = outline.sections.length === byChapter.length;
+        ranges = byChapter.map((range, i) => ({
+            title: range.chapter.title,
+            summary: keptChapters ? outline.sections[i].summary : "",
+            from: range.from,
+            to: range.to,
+        }));
+    } else {
+        ranges = normalizeSections(outline.sections, blocks.length).map(section => ({
+            title: section.title,
+            summary: section.summary,
+            from: blocks[section.startBlock - 1].startSegment,
+            to: blocks[section.endBlock - 1].endSegment,
+        }));
+    }
+
+    const sections = planSections(ranges, segments, tokenBudget);
+    const concurrency = getGenerationConcurrency();
+
+    console.log(`[Outline] ${sections.length} sections planned from ${byChapter.length > 0 ? `${byChapter.length} chapters` : `${blocks.length} blocks`} (concurrency ${concurrency})`);
+    send({ type: "outline-done", sections: sections.length, concurrency });
+
+    const outlineListing = sections.map(s => `${s.number}. ${s.title}${s.summary ? ` - ${s.summary}` : ""}`).join("\n");
+
+    const written = await mapWithConcurrency(sections, concurrency, async (section, index, signal) => {
+        send({ type: "chunk-start", index, total: sections.length, chars: section.text.length });
+        const startedAt = Date.now();
+
+        const prompt = renderTemplatePart(template, "section", {
+            OUTLINE: outlineListing,
+            NUMBER: section.number,
+            TITLE: section.title,
+            SUMMARY: section.summary,
+            TRANSCRIPT: frameTranscript(`TRANSCRIPT FOR SECTION ${section.number}: "${section.title}"`, section.text),
+        }) + `\n\n${optionsPrompt}`;
+
+        const { value, model } = await generateStructured(prompt, validateTutorialSection, `Section ${section.number}`, { signal });
+        // Another section failed while this one was written: the stream is already closed
+        signal.throwIfAborted();
+
+        console.log(`[Outline] Section ${section.number} response: ${value.steps.length} steps (model: ${model})`);
+        send({
+            type: "chunk-done",
+            index,
+            total: sections.length,
+            model,
+            chars: JSON.stringify(value).length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        // The outline owns the title so numbering and the Table of Contents stay consistent
+        const [anchored] = anchorSections([value], { start: section.start, end: section.end });
+        return { ...anchored, title: section.title };
+    }, signal);
+
+    // Section transcripts don't overlap; parts of a split section are joined
+    // back under the outline's title, and chapters keep theirs whatever they are
+    const document = mergeTutorialParts(
+        {
+            title: outline.title,
+            overview: outline.overview,
+            prerequisites: outline.prerequisites,
+            sections: [],
+            summary: outline.summary,
+            nextSteps: outline.nextSteps,
+        },
+        written.map(section => ({ sections: [section], summary: [], nextSteps: [] })),
+        { overlapping: false, chapterTitles: byChapter.map(range => range.chapter.title) }
+    );
+
+    return { document, sectionsProcessed: sections.length };
+}
@@ -0,0 +1,55 @@
+import { execFile } from "child_process";
+
+export interface CommandOptions {
+    /** Kill the process after this long (ms) */
+    timeoutMs?: number;
+    /** Kill the process when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * Raised when an external tool is missing, fails or times out. The message
+ * ends with the tail of the tool's stderr, which is where they explain why.
+ */
+export class CommandError extends Error {
+    command: string;
+    exitCode: number | null;
+
+    constructor(command: string, message: string, exitCode: number | null = null) {
+        super(message);
+        this.name = "CommandError";
+        this.command = command;
+        this.exitCode = exitCode;
+    }
+}
+
+// Only the end of stderr is kept; tools like ffmpeg print a banner first
+const STDERR_TAIL_CHARS = 1500;
+
+/**
+ * Run a command without a shell (arguments are never interpreted) and
+ * resolve with its stdout
+ */
+export function runCommand(file: string, args: string[], { timeoutMs, signal }: CommandOptions = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(file, args, { timeout: timeoutMs, signal, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (!error) {
+                resolve(stdout);
+                return;
+            }
+
+            const err = error as NodeJS.ErrnoException & { killed?: boolean; code?: number | string };
+            if (err.name === "AbortError") {
+                reject(new CommandError(file, `${file} was cancelled`));
+            } else if (err.code === "ENOENT") {
+                reject(new CommandError(file, `${file} was not found. Install it or set its path in the environment.`));
+            } else if (err.killed) {
+                reject(new CommandError(file, `${file} timed out after ${(timeoutMs ?? 0) / 1000}s`));
+            } else {
+                const detail = String(stderr).trim().slice(-STDERR_TAIL_CHARS);
+                const exitCode = typeof err.code === "number" ? err.code : null;
+                reject(new CommandError(file, `${file} exited with code ${exitCode ?? "?"}${detail ? `: ${detail}` : ""}`, exitCode));
+            }
+        });
+    });
+}
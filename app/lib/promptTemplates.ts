@@ -0,0 +1,268 @@
+import fs from "fs";
+import path from "path";
+import { estimateTokens } from "@/app/lib/chunkingUtils";
+import { CONTINUATION_JSON_SHAPE, DOCUMENT_JSON_SHAPE, SECTION_JSON_SHAPE } from "@/app/lib/tutorialSchema";
+
+// Prompt templates are markdown files: a front-matter header followed by
+// one block per prompt part, each introduced by a `::: <part>` line.
+//
+//   ---
+//   id: cheat-sheet
+//   name: Cheat sheet
+//   version: 1.0.0
+//   description: One line shown in the picker
+//   placeholders: DOCUMENT_SHAPE, TRANSCRIPT, ...
+//   ---
+//
+//   ::: first
+//   ...prompt for the first (or only) transcript part...
+//   ::: continuation
+//   ::: final
+//   ::: section
+//
+// Built-in templates live in `prompts/`; set PROMPT_TEMPLATES_DIR to load
+// more (a template with the same id replaces the built-in one).
+
+export type TemplatePart = "first" | "continuation" | "final" | "section";
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    version: string;
+    description: string;
+    placeholders: string[];
+    parts: Record<TemplatePart, string>;
+    /** File the template was loaded from */
+    file: string;
+}
+
+/** What the picker and API responses expose about a template */
+export interface TemplateSummary {
+    id: string;
+    name: string;
+    version: string;
+    description: string;
+}
+
+export type TemplateRef = Pick<TemplateSummary, "id" | "version">;
+
+export class TemplateError extends Error {
+    constructor(file: string, problems: string[]) {
+        super(`Invalid prompt template ${file}:\n- ${problems.join("\n- ")}`);
+        this.name = "TemplateError";
+    }
+}
+
+export const DEFAULT_TEMPLATE_ID = "step-by-step";
+
+const BUILT_IN_DIR = path.join(process.cwd(), "prompts");
+
+/**
+ * Placeholders each part may use, and which of them it must use. Values are
+ * filled in by the generation code; JSON shapes and the transcript framing
+ * are owned by the app so every template produces parseable output.
+ */
+const PART_PLACEHOLDERS: Record<TemplatePart, { allowed: string[]; required: string[] }> = {
+    first: {
+        allowed: ["DOCUMENT_SHAPE", "TRANSCRIPT", "PART_NUMBER", "TOTAL_PARTS"],
+        required: ["DOCUMENT_SHAPE", "TRANSCRIPT"],
+    },
+    continuation: {
+        allowed: ["CONTINUATION_SHAPE", "TRANSCRIPT", "PART_NUMBER", "TOTAL_PARTS", "PREVIOUS_SUMMARY", "LAST_SECTION_PREVIEW"],
+        required: ["CONTINUATION_SHAPE", "TRANSCRIPT"],
+    },
+    final: {
+        allowed: [],
+        required: [],
+    },
+    section: {
+        allowed: ["SECTION_SHAPE", "TRANSCRIPT", "OUTLINE", "NUMBER", "TITLE", "SUMMARY"],
+        required: ["SECTION_SHAPE", "TRANSCRIPT", "TITLE"],
+    },
+};
+
+const PARTS = Object.keys(PART_PLACEHOLDERS) as TemplatePart[];
+const KNOWN_PLACEHOLDERS = new Set(PARTS.flatMap(part => PART_PLACEHOLDERS[part].allowed));
+
+const SHAPES: Record<string, string> = {
+    DOCUMENT_SHAPE: DOCUMENT_JSON_SHAPE,
+    CONTINUATION_SHAPE: CONTINUATION_JSON_SHAPE,
+    SECTION_SHAPE: SECTION_JSON_SHAPE,
+};
+
+const PLACEHOLDER = /\{([A-Z][A-Z0-9_]*)\}/g;
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function usedPlaceholders(text: string): string[] {
+    return [...new Set([...text.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+function parseFrontMatter(header: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const line of header.split("\n")) {
+        const match = line.match(/^([a-zA-Z]+):\s*(.*)$/);
+        if (match) fields[match[1]] = match[2].trim();
+    }
+    return fields;
+}
+
+/**
+ * Parse and validate one template file. Every problem is collected so a
+ * broken template reports everything wrong with it at once.
+ */
+export function parseTemplate(source: string, file: string): PromptTemplate {
+    const problems: string[] = [];
+    const match = source.replace(/\r\n/g, "\n").match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+    if (!match) throw new TemplateError(file, ["missing front matter (--- header ---)"]);
+
+    const fields = parseFrontMatter(match[1]);
+    for (const field of ["id", "name", "version"]) {
+        if (!fields[field]) problems.push(`front matter is missing "${field}"`);
+    }
+    if (fields.id && !ID_PATTERN.test(fields.id)) {
+        problems.push(`id "${fields.id}" must be lowercase letters, digits and dashes`);
+    }
+
+    const placeholders = (fields.placeholders || "").split(",").map(p => p.trim()).filter(Boolean);
+    for (const name of placeholders) {
+        if (!KNOWN_PLACEHOLDERS.has(name)) problems.push(`declared placeholder {${name}} is not supported`);
+    }
+
+    const parts: Partial<Record<TemplatePart, string>> = {};
+    for (const block of match[2].split(/^::: */m).slice(1)) {
+        const newline = block.indexOf("\n");
+        const name = (newline === -1 ? block : block.slice(0, newline)).trim() as TemplatePart;
+        const body = newline === -1 ? "" : block.slice(newline + 1).trim();
+
+        if (!PARTS.includes(name)) problems.push(`unknown part "::: ${name}"`);
+        else if (parts[name] !== undefined) problems.push(`part "${name}" is defined twice`);
+        else parts[name] = body;
+    }
+
+    for (const part of PARTS) {
+        const body = parts[part];
+        if (body === undefined) {
+            // A template may have nothing to add on the final part
+            if (part === "final") parts.final = "";
+            else problems.push(`missing part "::: ${part}"`);
+            continue;
+        }
+
+        const used = usedPlaceholders(body);
+        for (const name of used) {
+            if (!placeholders.includes(name)) problems.push(`${part}: {${name}} is used but not declared`);
+            else if (!PART_PLACEHOLDERS[part].allowed.includes(name)) problems.push(`${part}: {${name}} is not available in this part`);
+        }
+        for (const name of PART_PLACEHOLDERS[part].required) {
+            if (!used.includes(name)) problems.push(`${part}: must use {${name}}`);
+        }
+    }
+
+    if (problems.length > 0) throw new TemplateError(file, problems);
+
+    return {
+        id: fields.id,
+        name: fields.name,
+        version: fields.version,
+        description: fields.description || "",
+        placeholders,
+        parts: parts as Record<TemplatePart, string>,
+        file,
+    };
+}
+
+function readTemplateDir(dir: string, templates: Map<string, PromptTemplate>, errors: string[]): void {
+    let files: string[];
+    try {
+        files = fs.readdirSync(dir).filter(file => file.endsWith(".md")).sort();
+    } catch (err) {
+        errors.push(`Could not read prompt templates from ${dir}: ${err instanceof Error ? err.message : err}`);
+        return;
+    }
+
+    for (const file of files) {
+        const fullPath = path.join(dir, file);
+        try {
+            const template = parseTemplate(fs.readFileSync(fullPath, "utf8"), fullPath);
+            templates.set(template.id, template);
+        } catch (err) {
+            errors.push(err instanceof Error ? err.message : String(err));
+        }
+    }
+}
+
+/**
+ * Load built-in and user templates. Templates are read on every call so
+ * edits to user templates apply without a restart; invalid files are
+ * reported in `errors` and left out.
+ */
+export function loadTemplates(): { templates: PromptTemplate[]; errors: string[] } {
+    const templates = new Map<string, PromptTemplate>();
+    const errors: string[] = [];
+
+    readTemplateDir(BUILT_IN_DIR, templates, errors);
+    if (process.env.PROMPT_TEMPLATES_DIR) {
+        readTemplateDir(path.resolve(process.env.PROMPT_TEMPLATES_DIR), templates, errors);
+    }
+
+    for (const error of errors) console.error(`[Templates] ${error}`);
+
+    return { templates: [...templates.values()], errors };
+}
+
+export function getTemplate(id: string): PromptTemplate | null {
+    return loadTemplates().templates.find(template => template.id === id) ?? null;
+}
+
+export function summarizeTemplate(template: PromptTemplate): TemplateSummary {
+    return {
+        id: template.id,
+        name: template.name,
+        version: template.version,
+        description: template.description,
+    };
+}
+
+/**
+ * Wrap a transcript excerpt in the delimiters every prompt uses, so the
+ * model (and the mock provider) can tell instructions from transcript
+ */
+export function frameTranscript(heading: string, text: string): string {
+    return `---
+## ${heading}
+---
+
+${text}
+
+---
+END OF TRANSCRIPT SECTION
+---`;
+}
+
+/**
+ * Fill a template part. JSON shapes are always available; other values
+ * come from the caller. Function replacers keep `$` in transcripts literal.
+ */
+export function renderTemplatePart(
+    template: PromptTemplate,
+    part: TemplatePart,
+    values: Record<string, string | number> = {}
+): string {
+    return template.parts[part].replace(PLACEHOLDER, (token, name: string) => {
+        if (name in values) return String(values[name]);
+        if (name in SHAPES) return SHAPES[name];
+        return token;
+    });
+}
+
+/**
+ * Rough size of the largest prompt a template produces, without the
+ * transcript, for the chunk token budget
+ */
+export function getTemplatePromptTokens(template: PromptTemplate): number {
+    return Math.max(
+        estimateTokens(renderTemplatePart(template, "first")),
+        estimateTokens(renderTemplatePart(template, "continuation") + template.parts.final),
+        estimateTokens(renderTemplatePart(template, "section"))
+    );
+}
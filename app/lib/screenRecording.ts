@@ -0,0 +1,162 @@
+import fs from "fs/promises";
+import { createWriteStream } from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { formatMegabytes, getVideoMaxBytes, sizeLimit, type MediaTracks } from "@/app/lib/downloadVideo";
+import { extractFrame, probeMedia } from "@/app/lib/ffmpeg";
+import { MAX_FIELD_BYTES } from "@/app/lib/multipartForm";
+import { transcribeFile, type SpeechToTextProvider } from "@/app/lib/speechToText";
+import type { FrameSource, SampledFrame } from "@/app/lib/storyboardUtils";
+import type { TranscriptResult } from "@/app/lib/transcriptUtils";
+import type { VideoMetadata } from "@/app/lib/videoMetadata";
+
+// Screen recordings that never went to YouTube, uploaded from the home page.
+// The file is written to its own temporary directory and read with a local
+// ffmpeg: the audio for speech-to-text, frames for screenshots and code checks.
+
+export const RECORDING_EXTENSIONS = ["mp4", "webm", "mkv"];
+
+/** An uploaded recording saved to its own temporary directory */
+export interface ScreenRecording {
+    path: string;
+    /** Name of the file as uploaded */
+    filename: string;
+    size: number;
+    /** Seconds, null when the container does not say */
+    duration: number | null;
+    tracks: MediaTracks;
+    /** Removes the temporary directory, with the audio and frames written there */
+    cleanup(): Promise<void>;
+}
+
+// Frames are read for code, so they are kept larger than storyboard frames
+const FRAME_MAX_WIDTH = 1280;
+// ffprobe and each frame grab get this long
+const FRAME_TIMEOUT_MS = 60 * 1000;
+
+function extensionOf(filename: string): string {
+    return path.extname(filename).slice(1).toLowerCase();
+}
+
+/**
+ * Check the size of an upload from its Content-Length, before any of the body
+ * is read. Returns why it is refused, or null when it may be read.
+ */
+export function checkUploadLength(contentLength: number): string | null {
+    // The form's text fields (the request, maybe a transcript) come on top of the recording
+    const maxBytes = getVideoMaxBytes() + MAX_FIELD_BYTES;
+    if (contentLength > maxBytes) {
+        return `Upload is ${formatMegabytes(contentLength)}, over the ${formatMegabytes(getVideoMaxBytes())} recording limit.`;
+    }
+    return null;
+}
+
+/**
+ * Check an upload's file name before anything is written to disk. Returns why
+ * it is refused, or null when it can be saved.
+ */
+export function checkRecordingFile(filename: string): string | null {
+    if (!RECORDING_EXTENSIONS.includes(extensionOf(filename))) {
+        return `Unsupported recording "${filename}". Upload an MP4, WebM or MKV file.`;
+    }
+    return null;
+}
+
+/**
+ * Write an uploaded recording to a temporary directory as it arrives, then
+ * read its duration and tracks. The caller owns the result and must call
+ * `cleanup()` once done with it. Throws when the upload goes over
+ * VIDEO_MAX_BYTES or ffprobe cannot read the file.
+ */
+export async function saveRecording(filename: string, content: Readable, signal?: AbortSignal): Promise<ScreenRecording> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "tubetutor-recording-"));
+    const cleanup = () => fs.rm(dir, { recursive: true, force: true });
+
+    try {
+        const filePath = path.join(dir, `recording.${extensionOf(filename)}`);
+        let size = 0;
+        await pipeline(content, sizeLimit(getVideoMaxBytes(), total => { size = total; }, "Recording"), createWriteStream(filePath), { signal });
+        if (size === 0) throw new Error("The recording is empty");
+
+        const { duration, tracks } = await probeMedia(filePath, { timeoutMs: FRAME_TIMEOUT_MS, signal });
+        if (!tracks.hasAudio && !tracks.hasVideo) {
+            throw new Error("The file has neither an audio nor a video track");
+        }
+
+        console.log(`[Recording] Saved "${filename}" (${formatMegabytes(size)}, ${duration?.toFixed(1) ?? "?"}s${tracks.hasVideo ? `, ${tracks.width}x${tracks.height}` : ", audio only"})`);
+        return { path: filePath, filename, size, duration, tracks, cleanup };
+    } catch (err) {
+        await cleanup();
+        throw err;
+    }
+}
+
+/** What the header and the loading screen show for a recording */
+export function recordingMetadata(recording: ScreenRecording): VideoMetadata {
+    return {
+        videoId: null,
+        title: recording.filename,
+        thumbnail: "",
+        duration: recording.duration,
+        channelName: null,
+        channelId: null,
+        publishDate: null,
+        description: "",
+        tags: [],
+        viewCount: null,
+        chapters: [],
+        source: "upload",
+    };
+}
+
+/** Transcribe the recording's audio with `provider` */
+export async function transcribeRecording(
+    recording: ScreenRecording,
+    provider: SpeechToTextProvider,
+    signal?: AbortSignal
+): Promise<TranscriptResult> {
+    if (!recording.tracks.hasAudio) {
+        throw new Error("The recording has no audio track");
+    }
+
+    const { segments, language } = await transcribeFile(recording.path, provider, { signal });
+    const text = segments.map(seg => seg.text).join(" ");
+    if (!text.trim()) throw new Error("No speech recognised");
+
+    return { text, source: "asr", segments, chapters: [], language, track: null };
+}
+
+/**
+ * Frames of the recording grabbed with ffmpeg, at full resolution up to
+ * FRAME_MAX_WIDTH. Also used for a downloaded YouTube video, which sits in a
+ * temporary directory of its own just the same. Null for files without a
+ * video track. A frame that cannot be grabbed is left out.
+ */
+export function recordingFrameSource(recording: Pick<ScreenRecording, "path" | "duration" | "tracks">): FrameSource | null {
+    if (!recording.tracks.hasVideo) return null;
+
+    return async (times) => {
+        // Stay clear of the very end, where there may be no frame left to decode
+        const last = recording.duration !== null ? Math.max(0, recording.duration - 1) : Infinity;
+        const wanted = [...new Set(times.map(time => Math.round(Math.min(last, Math.max(0, time)) * 10) / 10))]
+            .sort((a, b) => a - b);
+        const frames: SampledFrame[] = [];
+
+        for (const time of wanted) {
+            const output = path.join(path.dirname(recording.path), `frame-${time}.jpg`);
+            try {
+                await extractFrame(recording.path, time, output, FRAME_MAX_WIDTH, { timeoutMs: FRAME_TIMEOUT_MS });
+                frames.push({ time, base64: (await fs.readFile(output)).toString("base64") });
+            } catch (err) {
+                console.log(`[Recording] No frame at ${time}s: ${err instanceof Error ? err.message : err}`);
+            } finally {
+                await fs.rm(output, { force: true });
+            }
+        }
+
+        console.log(`[Recording] Grabbed ${frames.length} of ${wanted.length} frames`);
+        return frames;
+    };
+}
@@ -0,0 +1,164 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+import { downloadVideo } from "@/app/lib/downloadVideo";
+import { extractAudio } from "@/app/lib/ffmpeg";
+import { runCommand } from "@/app/lib/processUtils";
+
+export type SpeechToTextProviderId = "whisper-cpp";
+
+/**
+ * A speech-to-text engine. Adapters receive a 16 kHz mono WAV file (see
+ * `extractAudio`) and return timed caption segments.
+ */
+export interface SpeechToTextProvider {
+    id: SpeechToTextProviderId;
+    /** Human-readable name used in logs and progress events */
+    label: string;
+    /** Whether the binaries / models this adapter needs are configured */
+    isConfigured(): boolean;
+    transcribe(audioPath: string, options?: TranscribeOptions): Promise<SpeechToTextResult>;
+}
+
+export interface TranscribeOptions {
+    /** Spoken language code; the engine detects it when omitted */
+    language?: string;
+    /** Stops the engine (and audio extraction) when aborted */
+    signal?: AbortSignal;
+}
+
+export interface SpeechToTextResult {
+    segments: TranscriptSegment[];
+    /** Language the engine detected or was told, when it reports one */
+    language: string | null;
+}
+
+// Download, audio extraction and transcription each get this long
+const DEFAULT_ASR_TIMEOUT_MS = 30 * 60 * 1000;
+
+function getAsrTimeoutMs(): number {
+    return Number(process.env.ASR_TIMEOUT_MS) || DEFAULT_ASR_TIMEOUT_MS;
+}
+
+interface WhisperCppOutput {
+    result?: { language?: string };
+    transcription?: {
+        offsets?: { from?: number; to?: number };
+        text?: string;
+    }[];
+}
+
+/**
+ * whisper.cpp's CLI (`whisper-cli`, formerly `main`) running on the CPU.
+ * WHISPER_CPP_MODEL points at a ggml model file; WHISPER_CPP_BINARY,
+ * WHISPER_CPP_THREADS and WHISPER_CPP_LANGUAGE are optional.
+ */
+const whisperCppProvider: SpeechToTextProvider = {
+    id: "whisper-cpp",
+    label: "whisper.cpp",
+    isConfigured: () => Boolean(process.env.WHISPER_CPP_MODEL),
+    async transcribe(audioPath, options = {}) {
+        const outputBase = audioPath.replace(/\.wav$/i, "");
+        const language = options.language || process.env.WHISPER_CPP_LANGUAGE || "auto";
+        const threads = Number(process.env.WHISPER_CPP_THREADS) || os.cpus().length;
+
+        // -oj writes `<outputBase>.json` with millisecond offsets per segment
+        await runCommand(
+            process.env.WHISPER_CPP_BINARY || "whisper-cli",
+            [
+                "-m", process.env.WHISPER_CPP_MODEL || "",
+                "-f", audioPath,
+                "-l", language,
+                "-t", String(threads),
+                "-oj",
+                "-of", outputBase,
+                "--no-prints",
+            ],
+            { timeoutMs: getAsrTimeoutMs(), signal: options.signal }
+        );
+
+        const output: WhisperCppOutput = JSON.parse(await fs.readFile(`${outputBase}.json`, "utf8"));
+        const segments: TranscriptSegment[] = [];
+
+        for (const item of output.transcription ?? []) {
+            const text = (item.text ?? "").replace(/\s+/g, " ").trim();
+            // whisper.cpp marks silence and music with bracketed tags
+            if (!text || /^\[[^\]]*\]$|^\([^)]*\)$/.test(text)) continue;
+
+            const start = (item.offsets?.from ?? 0) / 1000;
+            const end = (item.offsets?.to ?? 0) / 1000;
+            segments.push({ text, start, duration: Math.max(0, end - start) });
+        }
+
+        const detected = output.result?.language;
+        return { segments, language: detected && detected !== "auto" ? detected : null };
+    },
+};
+
+const PROVIDERS: Record<SpeechToTextProviderId, SpeechToTextProvider> = {
+    "whisper-cpp": whisperCppProvider,
+};
+
+/**
+ * The speech-to-text engine to fall back to when a video has no captions.
+ * `ASR_PROVIDER` picks one explicitly (`none` disables the fallback);
+ * otherwise the first configured adapter is used.
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider | null {
+    const requested = process.env.ASR_PROVIDER?.trim();
+    if (requested === "none") return null;
+
+    if (requested) {
+        const provider = PROVIDERS[requested as SpeechToTextProviderId];
+        if (!provider) {
+            console.warn(`[ASR] Unknown ASR_PROVIDER "${requested}"`);
+            return null;
+        }
+        return provider.isConfigured() ? provider : null;
+    }
+
+    return Object.values(PROVIDERS).find(provider => provider.isConfigured()) ?? null;
+}
+
+/**
+ * Convert the audio of a local media file and run it through `provider`.
+ * The WAV is written next to `mediaPath`, so its directory should be a
+ * temporary one the caller removes.
+ */
+export async function transcribeFile(
+    mediaPath: string,
+    provider: SpeechToTextProvider,
+    options: TranscribeOptions = {}
+): Promise<SpeechToTextResult> {
+    const audioPath = path.join(path.dirname(mediaPath), "audio.wav");
+    await extractAudio(mediaPath, audioPath, { timeoutMs: getAsrTimeoutMs(), signal: options.signal });
+
+    console.log(`[ASR] Transcribing ${path.basename(mediaPath)} with ${provider.label}...`);
+    const startedAt = Date.now();
+    const result = await provider.transcribe(audioPath, options);
+    console.log(`[ASR] ${result.segments.length} segments in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+
+    return result;
+}
+
+/**
+ * Download the video's audio and transcribe it (see `transcribeFile`).
+ * Everything is written to the download's temporary directory, removed afterwards.
+ */
+export async function transcribeVideo(
+    videoId: string,
+    provider: SpeechToTextProvider,
+    options: TranscribeOptions = {}
+): Promise<SpeechToTextResult> {
+    const video = await downloadVideo(videoId, { content: "audio", signal: options.signal });
+    try {
+        if (!video.tracks.hasAudio) {
+            throw new Error("The downloaded video has no audio track");
+        }
+
+        return await transcribeFile(video.path, provider, options);
+    } finally {
+        await video.cleanup();
+    }
+}
@@ -0,0 +1,72 @@
+import { dropNearDuplicates } from "@/app/lib/frameHashing";
+import type { GenerationEvent } from "@/app/lib/generationEvents";
+import type { FrameSource, SampledFrame } from "@/app/lib/storyboardUtils";
+import type { TutorialAsset, TutorialDocument, TutorialStep } from "@/app/lib/tutorialSchema";
+
+// Upper bound on screenshots per tutorial, the earliest steps first
+const MAX_SCREENSHOTS = 30;
+// Frames further than this from a step's moment show something else
+const MAX_FRAME_DISTANCE_SECONDS = 20;
+
+/**
+ * The moment that stands for a step: halfway through its range, once the
+ * instructor has started showing what the step does
+ */
+function representativeTime(step: TutorialStep): number | null {
+    if (!step.time) return null;
+    return (step.time.start + step.time.end) / 2;
+}
+
+function nearestFrame(frames: SampledFrame[], time: number): SampledFrame | null {
+    let nearest: SampledFrame | null = null;
+    for (const frame of frames) {
+        if (frame.time === null) continue;
+        if (!nearest || Math.abs(frame.time - time) < Math.abs((nearest.time ?? 0) - time)) nearest = frame;
+    }
+    return nearest && Math.abs((nearest.time ?? 0) - time) <= MAX_FRAME_DISTANCE_SECONDS ? nearest : null;
+}
+
+/**
+ * Attach a frame of the video to each timed step the model marked as
+ * needing a picture. Frames become JPEG assets under `images/`, referenced by
+ * path from the steps; a step whose frame shows the same screen as an
+ * earlier screenshot gets none. Best effort: without frames of the video the document
+ * is returned as it was. The document is not modified.
+ */
+export async function attachStepScreenshots(
+    document: TutorialDocument,
+    frameSource: FrameSource | null,
+    send: (event: GenerationEvent) => void
+): Promise<{ document: TutorialDocument; assets: TutorialAsset[] }> {
+    const wanted = document.sections
+        .flatMap((section, sectionIndex) => section.steps.map((step, stepIndex) => ({ step, sectionIndex, stepIndex })))
+        .filter(({ step }) => step.wantsScreenshot && step.time)
+        .slice(0, MAX_SCREENSHOTS);
+
+    if (!frameSource || wanted.length === 0) {
+        console.log(`[Screenshots] Nothing to attach (${frameSource ? "no step needs one" : "no video"})`);
+        send({ type: "screenshots-done", attached: 0 });
+        return { document, assets: [] };
+    }
+
+    const frames = await frameSource(wanted.map(({ step }) => representativeTime(step) ?? 0));
+    const sections = document.sections.map(section => ({ ...section, steps: [...section.steps] }));
+    const assets: TutorialAsset[] = [];
+
+    const matched = wanted.flatMap(want => {
+        const frame = nearestFrame(frames, representativeTime(want.step) ?? 0);
+        return frame && frame.time !== null ? [{ ...want, frame, time: frame.time }] : [];
+    });
+    const distinct = await dropNearDuplicates(matched, ({ frame }) => Buffer.from(frame.base64, "base64"));
+
+    for (const { step, sectionIndex, stepIndex, frame, time } of distinct) {
+        const path = `images/step-${sectionIndex + 1}-${stepIndex + 1}.jpg`;
+        assets.push({ path, mimeType: "image/jpeg", data: frame.base64 });
+        sections[sectionIndex].steps[stepIndex] = { ...step, screenshot: { src: path, time } };
+    }
+
+    console.log(`[Screenshots] Attached ${assets.length} of ${wanted.length} requested screenshots`);
+    send({ type: "screenshots-done", attached: assets.length });
+
+    return { document: { ...document, sections }, assets };
+}
@@ -1,6 +1,11 @@
 import sharp from "sharp";
+import { Innertube, YTNodes } from "youtubei.js";
+import { dropNearDuplicates, hashImage, selectSceneFrames } from "@/app/lib/frameHashing";
+
+type VideoInfo = Awaited<ReturnType<Innertube["getBasicInfo"]>>;
 
 interface StoryboardInfo {
+    /** Sheet URL with `$M` standing for the sheet number */
     baseUrl: string;
     cols: number;
     rows: number;
@@ -8,17 +13,82 @@ interface StoryboardInfo {
     frameHeight: number;
     frameCount: number;
     totalSheets: number;
+    /** Seconds of video between two frames */
+    interval: number;
+}
+
+/** A frame sampled from the video, with the time it was taken at */
+export interface SampledFrame {
+    /** Seconds into the video, null for thumbnails whose time is unknown */
+    time: number | null;
+    /** Base64-encoded JPEG */
+    base64: string;
+}
+
+/**
+ * Takes frames at the given seconds into a video, for the passes that look at
+ * the screen; a YouTube storyboard or an uploaded recording
+ */
+export type FrameSource = (times: number[]) => Promise<SampledFrame[]>;
+
+/**
+ * Storyboard levels from the player response, smallest frames first.
+ * The spec lists one level per `|`-separated part (frame size, count, grid,
+ * interval, name, signature); youtubei.js already splits it into boards.
+ */
+export function storyboardLevelsFromInfo(info: VideoInfo): StoryboardInfo[] {
+    const spec = info.storyboards;
+    if (!spec?.is(YTNodes.PlayerStoryboardSpec)) return [];
+
+    const duration = info.basic_info.duration ?? 0;
+
+    return spec.boards
+        .filter(board => board.thumbnail_count > 0 && board.columns > 0 && board.rows > 0)
+        .map(board => ({
+            baseUrl: board.template_url,
+            cols: board.columns,
+            rows: board.rows,
+            frameWidth: board.thumbnail_width,
+            frameHeight: board.thumbnail_height,
+            frameCount: board.thumbnail_count,
+            totalSheets: board.storyboard_count,
+            // The lowest level reports no interval: its frames are spread over the whole video
+            interval: board.interval > 0 ? board.interval / 1000 : duration / board.thumbnail_count,
+        }));
+}
+
+/**
+ * Every storyboard level of a video, smallest frames first. Empty when the
+ * video has none or the player response cannot be read.
+ */
+async function getStoryboardLevels(videoId: string): Promise<StoryboardInfo[]> {
+    try {
+        const youtube = await Innertube.create();
+        const levels = storyboardLevelsFromInfo(await youtube.getBasicInfo(videoId));
+        if (levels.length === 0) console.log("[Storyboard] Video has no storyboard");
+        return levels;
+    } catch (error) {
+        console.error("[Storyboard] Could not read storyboard spec:", error);
+        return [];
+    }
+}
+
+function describeLevel(level: StoryboardInfo): string {
+    return `${level.frameCount} frames of ${level.frameWidth}x${level.frameHeight}, one every ${level.interval.toFixed(1)}s`;
 }
 
 /**
  * Extract storyboard information from YouTube video
- * Storyboards are sprite sheets containing multiple frames used for video preview
+ * Storyboards are sprite sheets containing multiple frames used for video preview.
+ * The level with the largest frames is used, since they are read for code.
  */
 export async function getStoryboardInfo(videoId: string): Promise<StoryboardInfo | null> {
-    // Storyboard extraction relied on @distube/ytdl-core which has been removed.
-    // Returning null will trigger the fallback to standard thumbnails.
-    console.log("[Storyboard] Storyboard extraction disabled (ytdl-core removed). Using fallback.");
-    return null;
+    const levels = await getStoryboardLevels(videoId);
+    if (levels.length === 0) return null;
+
+    const level = levels[levels.length - 1];
+    console.log(`[Storyboard] ${describeLevel(level)}`);
+    return level;
 }
 
 
@@ -29,14 +99,8 @@ export function getStoryboardSheetUrls(baseUrl: string, sheetCount: number): str
     const urls: string[] = [];
 
     for (let i = 0; i < sheetCount; i++) {
-        // Replace placeholders in the URL
-        // $L = level (quality), $N = sheet number, M$M = sheet number with M prefix
-        let sheetUrl = baseUrl
-            .replace("$L", "2") // Use quality level 2 (higher res)
-            .replace("$N", i.toString())
-            .replace(/M\$M/g, `M${i}`);
-
-        urls.push(sheetUrl);
+        // The level ($L) and its name ($N) are already filled in; $M is the sheet number
+        urls.push(baseUrl.replace(/\$M/g, i.toString()));
     }
 
     return urls;
@@ -73,16 +137,19 @@ export async function extractFramesFromSheet(
             return [];
         }
 
-        // Calculate actual frame dimensions from the image
-        const actualFrameWidth = Math.floor(metadata.width / cols);
-        const actualFrameHeight = Math.floor(metadata.height / rows);
+        // Prefer the frame size from the spec: the last sheet of a level is cut
+        // short (fewer rows), so dividing its height by the grid would be wrong
+        const fits = frameWidth > 0 && frameHeight > 0 && frameWidth * cols <= metadata.width;
+        const actualFrameWidth = fits ? frameWidth : Math.floor(metadata.width / cols);
+        const actualFrameHeight = fits ? frameHeight : Math.floor(metadata.height / rows);
 
         // Extract frames from the grid
         let extracted = 0;
-        for (let row = 0; row < rows && extracted < maxFrames; row++) {
+        grid: for (let row = 0; row < rows && extracted < maxFrames; row++) {
             for (let col = 0; col < cols && extracted < maxFrames; col++) {
                 const left = col * actualFrameWidth;
                 const top = row * actualFrameHeight;
+                if (top + actualFrameHeight > metadata.height) break grid;
 
                 try {
                     const frameBuffer = await sharp(imageBuffer)
@@ -98,7 +165,8 @@ export async function extractFramesFromSheet(
                     frames.push(frameBuffer);
                     extracted++;
                 } catch {
-                    // Skip frames that fail to extract
+                    // Frames are matched to timestamps by position, so stop rather than skip
+                    break grid;
                 }
             }
         }
@@ -111,120 +179,71 @@ export async function extractFramesFromSheet(
     }
 }
 
-/**
- * Get sampled frames from a video at regular intervals
- * Returns base64-encoded JPEG images
- */
-export async function getSampledVideoFrames(
-    videoId: string,
-    targetFrameCount: number = 10
-): Promise<string[]> {
-    try {
-        // Get storyboard info
-        const storyboardInfo = await getStoryboardInfo(videoId);
-
-        if (!storyboardInfo) {
-            console.log("[Storyboard] No storyboard available, falling back to thumbnails");
-            return await getFallbackThumbnails(videoId);
-        }
-
-        const { baseUrl, cols, rows, frameWidth, frameHeight, frameCount, totalSheets } = storyboardInfo;
-
-        // Calculate which sheets to download to get evenly spaced frames
-        const framesPerSheet = cols * rows;
-        const frameInterval = Math.max(1, Math.floor(frameCount / targetFrameCount));
+/** Frames of `level` nearest to each of `times`, each sheet downloaded once */
+async function framesAt(level: StoryboardInfo, times: number[]): Promise<SampledFrame[]> {
+    const { baseUrl, cols, rows, frameWidth, frameHeight, frameCount, totalSheets, interval } = level;
+    if (interval <= 0) return [];
 
-        // Determine which sheets we need
-        const sheetsToFetch = new Set<number>();
-        const targetFrameIndices: number[] = [];
-
-        for (let i = 0; i < targetFrameCount; i++) {
-            const frameIndex = Math.min(i * frameInterval, frameCount - 1);
-            const sheetIndex = Math.floor(frameIndex / framesPerSheet);
-            sheetsToFetch.add(sheetIndex);
-            targetFrameIndices.push(frameIndex);
-        }
+    const framesPerSheet = cols * rows;
+    const sheetUrls = getStoryboardSheetUrls(baseUrl, totalSheets);
 
-        // Get sheet URLs
-        const allSheetUrls = getStoryboardSheetUrls(baseUrl, totalSheets);
+    const indices = [...new Set(times.map(time => Math.min(frameCount - 1, Math.max(0, Math.round(time / interval)))))]
+        .sort((a, b) => a - b);
+    const sheets = new Map<number, Buffer[]>();
+    const frames: SampledFrame[] = [];
 
-        // Download and extract frames from needed sheets
-        const allFrames: { index: number; buffer: Buffer }[] = [];
-
-        for (const sheetIndex of sheetsToFetch) {
-            if (sheetIndex >= allSheetUrls.length) continue;
-
-            const sheetUrl = allSheetUrls[sheetIndex];
-            const frames = await extractFramesFromSheet(
-                sheetUrl,
+    for (const index of indices) {
+        const sheetIndex = Math.floor(index / framesPerSheet);
+        if (!sheets.has(sheetIndex) && sheetIndex < sheetUrls.length) {
+            sheets.set(sheetIndex, await extractFramesFromSheet(
+                sheetUrls[sheetIndex],
                 cols,
                 rows,
                 frameWidth,
-                frameHeight
-            );
-
-            // Map frames to their global indices
-            frames.forEach((buffer, localIndex) => {
-                const globalIndex = sheetIndex * framesPerSheet + localIndex;
-                allFrames.push({ index: globalIndex, buffer });
-            });
+                frameHeight,
+                // The last sheet is only partly filled
+                Math.min(framesPerSheet, frameCount - sheetIndex * framesPerSheet)
+            ));
         }
 
-        // Select the frames closest to our target indices
-        const selectedFrames: string[] = [];
-
-        for (const targetIndex of targetFrameIndices) {
-            // Find the closest frame we have
-            let closest = allFrames[0];
-            let minDiff = Math.abs(allFrames[0]?.index - targetIndex) ?? Infinity;
+        const buffer = sheets.get(sheetIndex)?.[index % framesPerSheet];
+        if (buffer) {
+            frames.push({ time: Math.round(index * interval * 10) / 10, base64: buffer.toString("base64") });
+        }
+    }
 
-            for (const frame of allFrames) {
-                const diff = Math.abs(frame.index - targetIndex);
-                if (diff < minDiff) {
-                    minDiff = diff;
-                    closest = frame;
-                }
-            }
+    return frames;
+}
 
-            if (closest && !selectedFrames.includes(closest.buffer.toString("base64"))) {
-                selectedFrames.push(closest.buffer.toString("base64"));
-            }
-        }
+/**
+ * Frames nearest to each of `times` (seconds into the video), each sheet
+ * downloaded once. Empty without a storyboard: thumbnails have no time.
+ */
+export async function getVideoFramesAt(videoId: string, times: number[]): Promise<SampledFrame[]> {
+    const storyboardInfo = await getStoryboardInfo(videoId);
+    return storyboardInfo ? framesAt(storyboardInfo, times) : [];
+}
 
-        console.log(`[Storyboard] Selected ${selectedFrames.length} sampled frames`);
-        return selectedFrames;
-    } catch (error) {
-        console.error("[Storyboard] Error getting sampled frames:", error);
-        return await getFallbackThumbnails(videoId);
-    }
+/** Frames from a YouTube video's storyboard */
+export function storyboardFrameSource(videoId: string): FrameSource {
+    return times => getVideoFramesAt(videoId, times);
 }
 
 /**
- * Fallback to YouTube thumbnails if storyboard extraction fails
+ * Up to `count` of `frames` (in time order) that show what the screen went
+ * through: the last frame of each scene first, then spread-out frames (see
+ * `selectSceneFrames`), with near-identical frames dropped. When a frame
+ * cannot be decoded the first `count` are returned, still without duplicates.
  */
-async function getFallbackThumbnails(videoId: string): Promise<string[]> {
-    const thumbnailUrls = [
-        `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
-        `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
-        `https://img.youtube.com/vi/${videoId}/1.jpg`,
-        `https://img.youtube.com/vi/${videoId}/2.jpg`,
-        `https://img.youtube.com/vi/${videoId}/3.jpg`,
-    ];
-
-    const frames: string[] = [];
-
-    for (const url of thumbnailUrls) {
-        try {
-            const response = await fetch(url);
-            if (response.ok) {
-                const buffer = Buffer.from(await response.arrayBuffer());
-                frames.push(buffer.toString("base64"));
-            }
-        } catch {
-            // Skip failed thumbnails
-        }
-    }
+export async function pickSceneFrames(frames: SampledFrame[], count: number): Promise<SampledFrame[]> {
+    const imageOf = (frame: SampledFrame) => Buffer.from(frame.base64, "base64");
 
-    console.log(`[Storyboard] Fallback: got ${frames.length} thumbnails`);
-    return frames;
+    let picked = frames.slice(0, count);
+    try {
+        const hashes = await Promise.all(frames.map(frame => hashImage(imageOf(frame))));
+        picked = selectSceneFrames(hashes, count).map(index => frames[index]);
+    } catch {
+        // Picked in order instead
+    }
+    return dropNearDuplicates(picked, imageOf);
 }
@@ -0,0 +1,79 @@
+import { generateWithFallback } from "@/app/lib/modelFallback";
+import type { ImageInput, ModelTarget } from "@/app/lib/llmProviders";
+import type { ValidationResult } from "@/app/lib/tutorialSchema";
+
+// Attempts to fix an invalid response before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const REPAIR_PROMPT = `
+
+## REPAIR REQUEST
+Your previous response to the request above was rejected because it is not valid for the required JSON format:
+{ERRORS}
+
+Your previous response was:
+{PREVIOUS_RESPONSE}
+
+Respond again with ONLY the corrected JSON object. Keep all the content, fix only what is listed above.`;
+
+export interface StructuredOptions {
+    /** Sent with every attempt, repairs included */
+    images?: ImageInput[];
+    /** Models to walk instead of the configured text chain */
+    chain?: ModelTarget[];
+    /** Cancels the model calls, repairs included */
+    signal?: AbortSignal;
+}
+
+/**
+ * Pull the JSON object out of a model reply, tolerating markdown fences
+ * and prose around it
+ */
+export function extractJson(text: string): unknown {
+    const unfenced = text.replace(/^\s*```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/, "");
+    const start = unfenced.indexOf("{");
+    const end = unfenced.lastIndexOf("}");
+
+    if (start === -1 || end <= start) {
+        throw new Error("no JSON object found in the response");
+    }
+
+    return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+/**
+ * Generate a JSON response and validate it. Invalid responses are sent back
+ * to the model with the validation errors until they pass or the repair
+ * budget runs out.
+ */
+export async function generateStructured<T>(
+    prompt: string,
+    validate: (raw: unknown) => ValidationResult<T>,
+    label: string,
+    options: StructuredOptions = {}
+): Promise<{ value: T; model: string }> {
+    let currentPrompt = prompt;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const { text, model } = await generateWithFallback(currentPrompt, { json: true, images: options.images, signal: options.signal }, options.chain);
+
+        try {
+            const validation = validate(extractJson(text));
+            if (validation.ok) {
+                return { value: validation.value, model };
+            }
+            errors = validation.errors;
+        } catch (error) {
+            errors = [`invalid JSON: ${error instanceof Error ? error.message : String(error)}`];
+        }
+
+        console.log(`[Structured] ${label}: invalid response from ${model} (attempt ${attempt + 1}): ${errors.slice(0, 5).join("; ")}`);
+
+        currentPrompt = prompt + REPAIR_PROMPT
+            .replace("{ERRORS}", () => errors.slice(0, 20).map(e => `- ${e}`).join("\n"))
+            .replace("{PREVIOUS_RESPONSE}", () => text.slice(0, 20000));
+    }
+
+    throw new Error(`${label}: model did not return valid JSON after ${MAX_REPAIR_ATTEMPTS} repair attempts (${errors.slice(0, 3).join("; ")})`);
+}
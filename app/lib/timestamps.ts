@@ -0,0 +1,34 @@
+// Video time helpers shared by prompt construction, rendering and the UI
+
+/**
+ * Seconds to a YouTube-style timestamp: 75 -> "1:15", 3725 -> "1:02:05"
+ */
+export function formatTimestamp(seconds: number): string {
+    const total = Math.floor(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const mm = h > 0 ? m.toString().padStart(2, "0") : m.toString();
+    return `${h > 0 ? `${h}:` : ""}${mm}:${s.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Parse "12:34", "1:02:05", "[12:34]" or a plain number of seconds.
+ * Returns null for anything else.
+ */
+export function parseTimestamp(value: unknown): number | null {
+    if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+    if (typeof value !== "string") return null;
+
+    const match = value.trim().match(/^\[?(?:(\d+):)?(\d{1,2}):(\d{2})\]?$/);
+    if (match) {
+        return Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+    }
+
+    const seconds = Number(value.trim());
+    return value.trim() !== "" && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+export function watchUrl(videoId: string, seconds: number): string {
+    return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
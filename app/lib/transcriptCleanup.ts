@@ -0,0 +1,190 @@
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+import { estimateTokens } from "@/app/lib/chunkingUtils";
+
+// Deterministic clean-up run on every transcript before chunking. Captions
+// (auto-generated ones especially) carry noise that costs tokens and hides
+// sentence boundaries from the chunker; nothing here calls a model.
+
+export interface CleanupStats {
+    charsBefore: number;
+    charsAfter: number;
+    charsSaved: number;
+    tokensSaved: number;
+    /** Segments dropped because nothing was left of them */
+    segmentsRemoved: number;
+    /** Sentence ends added from pauses (only for unpunctuated transcripts) */
+    sentencesRestored: number;
+}
+
+// Non-speech tags such as [Music], [Applause], (laughter), ♪
+const SOUND_TAG = /(^|\s)[[(](?:music|applause|laughter|laughs|laughing|cheering|silence|inaudible|no audio|blank_audio|foreign|sound|noise|background noise)[\])](?=\s|$|[.,!?])/gi;
+const MUSIC_NOTES = /[♪♫♬]+/g;
+// ">>" marks a speaker change in YouTube captions
+const SPEAKER_CHANGE = /(^|\s)>>+(?=\s|$)/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: "\"",
+    apos: "'",
+    nbsp: " ",
+    hellip: "…",
+    mdash: "—",
+    ndash: "–",
+    lsquo: "‘",
+    rsquo: "’",
+    ldquo: "“",
+    rdquo: "”",
+};
+
+// Rolling captions repeat the end of the previous line; shorter overlaps are
+// left alone since a repeated word can be real ("very very")
+const MIN_ROLLING_OVERLAP_WORDS = 2;
+// How far back (in words) a rolling repeat is looked for
+const ROLLING_WINDOW_WORDS = 40;
+
+// Transcripts where fewer segments than this end a sentence are treated as unpunctuated
+const PUNCTUATED_SHARE = 0.15;
+// A pause at least this long (seconds, beyond the usual spacing) ends a sentence
+const SENTENCE_PAUSE_SECONDS = 0.8;
+
+const SENTENCE_END = /[.!?…]["')\]]?$/;
+
+/**
+ * Decode HTML entities (`&amp;`, `&#39;`, `&#x27;`...). Captions are often
+ * double-encoded (`&amp;gt;`), so decoding repeats until nothing changes.
+ */
+export function decodeEntities(text: string): string {
+    let current = text;
+    for (let pass = 0; pass < 3; pass++) {
+        const decoded = current.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+            if (body[0] === "#") {
+                const code = body[1] === "x" || body[1] === "X" ? parseInt(body.slice(2), 16) : Number(body.slice(1));
+                return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+            }
+            return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+        });
+        if (decoded === current) break;
+        current = decoded;
+    }
+    return current;
+}
+
+function stripArtifacts(text: string): string {
+    return text
+        .replace(SOUND_TAG, "$1")
+        .replace(MUSIC_NOTES, " ")
+        .replace(SPEAKER_CHANGE, "$1")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Number of leading words of `words` that repeat the end of `previous`
+ * (longest match wins)
+ */
+function rollingOverlap(previous: string[], words: string[]): number {
+    const max = Math.min(previous.length, words.length);
+    for (let size = max; size >= MIN_ROLLING_OVERLAP_WORDS; size--) {
+        let matches = true;
+        for (let i = 0; i < size; i++) {
+            if (previous[previous.length - size + i] !== words[i]) {
+                matches = false;
+                break;
+            }
+        }
+        if (matches) return size;
+    }
+    return 0;
+}
+
+function joinedText(segments: TranscriptSegment[]): string {
+    return segments.map(seg => seg.text).join(" ");
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Captions without punctuation get a sentence end wherever the speaker
+ * pauses, measured like the chunker does: silence after the segment, or a
+ * longer than usual gap between segment starts (rolling captions overlap)
+ */
+function restoreSentences(segments: TranscriptSegment[]): number {
+    const ended = segments.filter(seg => SENTENCE_END.test(seg.text)).length;
+    if (segments.length < 2 || ended / segments.length >= PUNCTUATED_SHARE) return 0;
+
+    const typicalDelta = median(segments.slice(1).map((seg, i) => seg.start - segments[i].start).filter(d => d > 0));
+    let restored = 0;
+
+    segments.forEach((seg, i) => {
+        const next = segments[i + 1];
+        const silence = next ? next.start - (seg.start + seg.duration) : Infinity;
+        const gap = next && typicalDelta > 0 ? next.start - seg.start - typicalDelta : 0;
+        if (Math.max(silence, gap) < SENTENCE_PAUSE_SECONDS || SENTENCE_END.test(seg.text)) return;
+
+        seg.text = `${seg.text.replace(/[,;:]$/, "")}.`;
+        restored++;
+        if (next) next.text = next.text.charAt(0).toUpperCase() + next.text.slice(1);
+    });
+
+    return restored;
+}
+
+/**
+ * Clean caption segments before chunking:
+ * - HTML entities are decoded
+ * - sound tags ([Music], [Applause]...), music notes and ">>" speaker marks are removed
+ * - words a rolling caption repeats from the previous lines are dropped
+ * - unpunctuated transcripts get sentence ends at pauses
+ *
+ * Segments left empty are removed and their time given to the previous one,
+ * so timings still cover the whole video. The input is not modified.
+ */
+export function cleanTranscript(segments: TranscriptSegment[]): { segments: TranscriptSegment[]; stats: CleanupStats } {
+    const before = joinedText(segments);
+    const cleaned: TranscriptSegment[] = [];
+    let recentWords: string[] = [];
+
+    for (const segment of segments) {
+        let words = stripArtifacts(decodeEntities(segment.text)).split(" ").filter(Boolean);
+
+        const repeated = rollingOverlap(recentWords, words.map(normalizeWord));
+        words = words.slice(repeated);
+
+        if (words.length === 0) {
+            const previous = cleaned[cleaned.length - 1];
+            if (previous) {
+                const end = Math.max(previous.start + previous.duration, segment.start + segment.duration);
+                previous.duration = end - previous.start;
+            }
+            continue;
+        }
+
+        recentWords = [...recentWords, ...words.map(normalizeWord)].slice(-ROLLING_WINDOW_WORDS);
+        cleaned.push({ ...segment, text: words.join(" ") });
+    }
+
+    const sentencesRestored = restoreSentences(cleaned);
+    const after = joinedText(cleaned);
+
+    return {
+        segments: cleaned,
+        stats: {
+            charsBefore: before.length,
+            charsAfter: after.length,
+            charsSaved: Math.max(0, before.length - after.length),
+            tokensSaved: Math.max(0, estimateTokens(before) - estimateTokens(after)),
+            segmentsRemoved: segments.length - cleaned.length,
+            sentencesRestored,
+        },
+    };
+}
@@ -0,0 +1,307 @@
+import fs from "fs/promises";
+import path from "path";
+import { getSubtitles } from "youtube-caption-extractor";
+import { Innertube } from "youtubei.js";
+import type { TranscriptChapter, TranscriptResult, TranscriptSegment } from "@/app/lib/transcriptUtils";
+import {
+    fetchCaptionTrack,
+    pickCaptionTrack,
+    summarizeTrack,
+    tracksFromInfo,
+    type CaptionPreference,
+    type CaptionTrack,
+} from "@/app/lib/captionTracks";
+import { parseTranscriptFile } from "@/app/lib/captionFormats";
+import { getSpeechToTextProvider, transcribeVideo } from "@/app/lib/speechToText";
+import { chaptersFromInfo } from "@/app/lib/videoChapters";
+import { isVideoId } from "@/app/lib/videoUtils";
+
+export type TranscriptStrategyId = "fixtures" | "youtubei" | "caption-extractor" | "asr";
+
+/** Shared by the strategies of one fetch, in the order they run */
+export interface StrategyContext {
+    preference: CaptionPreference;
+    /** Aborted when the strategy times out; long-running work should stop */
+    signal: AbortSignal;
+    /** Caption language found by an earlier strategy, for later ones to try first */
+    language?: string;
+}
+
+/**
+ * One way of getting a transcript. Strategies return null when the video
+ * simply has nothing for them and throw on errors; either way the next one
+ * in the chain is tried.
+ */
+export interface TranscriptStrategy {
+    id: TranscriptStrategyId;
+    /** Human-readable name used in logs, progress events and diagnostics */
+    label: string;
+    /** Whether the strategy can run here (configured, installed...) */
+    isAvailable(): boolean;
+    /** Used unless TRANSCRIPT_STRATEGY_TIMEOUTS says otherwise */
+    defaultTimeoutMs: number;
+    fetch(videoId: string, context: StrategyContext): Promise<TranscriptResult | null>;
+}
+
+// Below this many characters a transcript is treated as missing
+const MIN_TRANSCRIPT_CHARS = 50;
+
+const FIXTURE_EXTENSIONS = ["json3", "json", "srt", "vtt", "sbv", "txt"];
+
+type VideoInfo = Awaited<ReturnType<Innertube["getInfo"]>>;
+
+function joinSegments(segments: TranscriptSegment[]): string {
+    return segments.map(seg => seg.text).join(" ");
+}
+
+/**
+ * Read the transcript panel, switched to `track` when one was picked. The
+ * panel is preferred over the raw caption file because it also lists chapters.
+ */
+async function readTranscriptPanel(
+    info: VideoInfo,
+    track: CaptionTrack | null
+): Promise<{ segments: TranscriptSegment[]; chapters: TranscriptChapter[]; language: string | null } | null> {
+    let transcriptData = await info.getTranscript();
+    if (track && transcriptData.selectedLanguage !== track.name) {
+        transcriptData = await transcriptData.selectLanguage(track.name);
+    }
+
+    const nodes = transcriptData?.transcript?.content?.body?.initial_segments;
+    if (!nodes) return null;
+
+    const segments: TranscriptSegment[] = [];
+    const chapters: TranscriptChapter[] = [];
+
+    // Caption lines and section headers (chapters) are interleaved in the list
+    for (const node of nodes) {
+        const start = Number(node.start_ms) / 1000;
+        const text = node.snippet.toString();
+
+        if (node.type === "TranscriptSectionHeader") {
+            chapters.push({ title: text, start });
+        } else if (text.trim()) {
+            segments.push({ text, start, duration: Math.max(0, Number(node.end_ms) / 1000 - start) });
+        }
+    }
+
+    return { segments, chapters, language: track?.name || transcriptData.selectedLanguage || null };
+}
+
+/**
+ * Caption files saved as `<videoId>.<ext>` in TRANSCRIPT_FIXTURES_DIR, for
+ * offline development and reproducible runs without touching YouTube
+ */
+const fixturesStrategy: TranscriptStrategy = {
+    id: "fixtures",
+    label: "local fixtures",
+    isAvailable: () => Boolean(process.env.TRANSCRIPT_FIXTURES_DIR),
+    defaultTimeoutMs: 5_000,
+    async fetch(videoId) {
+        const dir = path.resolve(process.env.TRANSCRIPT_FIXTURES_DIR || "");
+        if (!isVideoId(videoId)) return null;
+
+        for (const extension of FIXTURE_EXTENSIONS) {
+            const filename = `${videoId}.${extension}`;
+            const file = path.resolve(dir, filename);
+            // Never read outside the fixtures directory, whatever the id
+            if (path.dirname(file) !== dir) continue;
+
+            let content: string;
+            try {
+                content = await fs.readFile(file, "utf8");
+            } catch {
+                continue;
+            }
+
+            const { format, segments } = parseTranscriptFile(content, { filename });
+            return {
+                text: joinSegments(segments),
+                source: `fixture (${format}: ${filename})`,
+                segments,
+                chapters: [],
+                language: null,
+                track: null,
+            };
+        }
+
+        return null;
+    },
+};
+
+/**
+ * youtubei.js (InnerTube): emulates a real Android/Web client, the most
+ * resistant to bot detection. Lists the caption tracks and picks one
+ * (see `pickCaptionTrack`).
+ */
+const youtubeiStrategy: TranscriptStrategy = {
+    id: "youtubei",
+    label: "youtubei.js",
+    isAvailable: () => true,
+    defaultTimeoutMs: 30_000,
+    async fetch(videoId, context) {
+        const { preference } = context;
+        const youtube = await Innertube.create();
+        const info = await youtube.getInfo(videoId);
+
+        const tracks = tracksFromInfo(info);
+        const track = pickCaptionTrack(tracks, preference);
+        if (preference.trackId && !track) {
+            throw new Error(`Caption track "${preference.trackId}" not found (available: ${tracks.map(t => t.id).join(", ") || "none"})`);
+        }
+        if (track) {
+            context.language = track.languageCode;
+            console.log(`[Transcript] Using caption track ${track.id} (${track.name}, ${track.kind}) of ${tracks.length}`);
+        }
+
+        let panel: Awaited<ReturnType<typeof readTranscriptPanel>> = null;
+        try {
+            panel = await readTranscriptPanel(info, track);
+        } catch (err) {
+            // The panel is optional when the track itself can be downloaded
+            if (!track) throw err;
+            console.log(`[Transcript] Transcript panel unavailable (${err instanceof Error ? err.message : err}), downloading track`);
+        }
+
+        if (!panel && track) {
+            panel = { segments: await fetchCaptionTrack(track), chapters: [], language: track.name };
+        }
+        if (!panel) return null;
+
+        const text = joinSegments(panel.segments);
+        if (text.length <= MIN_TRANSCRIPT_CHARS) return null;
+
+        return {
+            text,
+            source: 'youtubei.js (InnerTube)',
+            segments: panel.segments,
+            // The panel only lists chapters for some videos; the player bar and description have the rest
+            chapters: panel.chapters.length > 0 ? panel.chapters : chaptersFromInfo(info),
+            language: panel.language,
+            track: track ? summarizeTrack(track) : null,
+        };
+    },
+};
+
+/**
+ * youtube-caption-extractor: scrapes the watch page. Tries the language an
+ * earlier strategy picked, then English, then auto-generated captions.
+ */
+const captionExtractorStrategy: TranscriptStrategy = {
+    id: "caption-extractor",
+    label: "youtube-caption-extractor",
+    isAvailable: () => true,
+    defaultTimeoutMs: 30_000,
+    async fetch(videoId, context) {
+        const preferred = context.preference.languageCode ?? context.language ?? context.preference.trackId?.split(".")[1];
+        const langs = [...new Set([preferred, "en", "en-US", "en-GB", "auto"].filter((lang): lang is string => !!lang))];
+
+        for (const lang of langs) {
+            if (context.signal.aborted) break;
+            try {
+                const subtitles = await getSubtitles({ videoID: videoId, lang });
+                if (!subtitles || subtitles.length === 0) continue;
+
+                const segments: TranscriptSegment[] = subtitles.map(s => ({
+                    text: s.text,
+                    start: Number(s.start),
+                    duration: Number(s.dur),
+                }));
+                const text = joinSegments(segments);
+                if (text.trim().length < MIN_TRANSCRIPT_CHARS) continue;
+
+                return {
+                    text,
+                    source: `youtube-caption-extractor (${lang})`,
+                    segments,
+                    chapters: [],
+                    language: lang === "auto" ? null : lang,
+                    // This library does not say which track (manual or ASR) it read
+                    track: null,
+                };
+            } catch {
+                // Try next language silently
+            }
+        }
+
+        return null;
+    },
+};
+
+/**
+ * Speech-to-text on the downloaded audio (see `getSpeechToTextProvider`).
+ * Slow, since the whole video is downloaded and transcribed, so it belongs
+ * at the end of the chain.
+ */
+const asrStrategy: TranscriptStrategy = {
+    id: "asr",
+    label: "speech-to-text",
+    isAvailable: () => getSpeechToTextProvider() !== null,
+    defaultTimeoutMs: 60 * 60 * 1000,
+    async fetch(videoId, context) {
+        const provider = getSpeechToTextProvider();
+        if (!provider) return null;
+
+        const { segments, language } = await transcribeVideo(videoId, provider, {
+            language: context.preference.languageCode,
+            signal: context.signal,
+        });
+        const text = joinSegments(segments);
+        if (!text.trim()) throw new Error("No speech recognised");
+
+        return { text, source: "asr", segments, chapters: [], language, track: null };
+    },
+};
+
+const STRATEGIES: Record<TranscriptStrategyId, TranscriptStrategy> = {
+    fixtures: fixturesStrategy,
+    youtubei: youtubeiStrategy,
+    "caption-extractor": captionExtractorStrategy,
+    asr: asrStrategy,
+};
+
+const DEFAULT_ORDER: TranscriptStrategyId[] = ["fixtures", "youtubei", "caption-extractor", "asr"];
+
+/** Parse a comma-separated env var into a trimmed, non-empty list */
+function parseList(value: string | undefined): string[] {
+    return (value || "")
+        .split(",")
+        .map(item => item.trim())
+        .filter(Boolean);
+}
+
+function isStrategyId(value: string): value is TranscriptStrategyId {
+    return value in STRATEGIES;
+}
+
+/**
+ * Resolve the ordered list of strategies to try.
+ *
+ * - `TRANSCRIPT_STRATEGIES` orders them explicitly, e.g. `fixtures,youtubei`
+ *   (strategies left out are not used)
+ * - Otherwise: fixtures, youtubei, caption-extractor, asr
+ *
+ * Strategies that are not available (no fixture directory, no ASR engine) are skipped.
+ */
+export function getTranscriptStrategies(): TranscriptStrategy[] {
+    const configured = parseList(process.env.TRANSCRIPT_STRATEGIES);
+    for (const id of configured) {
+        if (!isStrategyId(id)) console.warn(`[Transcript] Ignoring unknown TRANSCRIPT_STRATEGIES entry: ${id}`);
+    }
+
+    const order = configured.length > 0 ? configured.filter(isStrategyId) : DEFAULT_ORDER;
+    return [...new Set(order)].map(id => STRATEGIES[id]).filter(strategy => strategy.isAvailable());
+}
+
+/**
+ * Timeout for a strategy. `TRANSCRIPT_STRATEGY_TIMEOUTS` lists `id:ms` pairs,
+ * e.g. `youtubei:15000,asr:1800000`; others keep their default.
+ */
+export function getStrategyTimeoutMs(strategy: TranscriptStrategy): number {
+    for (const entry of parseList(process.env.TRANSCRIPT_STRATEGY_TIMEOUTS)) {
+        const separator = entry.lastIndexOf(":");
+        const ms = Number(entry.slice(separator + 1));
+        if (entry.slice(0, separator) === strategy.id && ms > 0) return ms;
+    }
+    return strategy.defaultTimeoutMs;
+}
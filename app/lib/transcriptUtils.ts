@@ -1,84 +1,155 @@
-import { getSubtitles } from "youtube-caption-extractor";
-import { Innertube } from "youtubei.js";
+import type { GenerationEvent } from "@/app/lib/generationEvents";
+import type { CaptionPreference, CaptionTrackSummary } from "@/app/lib/captionTracks";
+import {
+    getStrategyTimeoutMs,
+    getTranscriptStrategies,
+    type StrategyContext,
+    type TranscriptStrategy,
+} from "@/app/lib/transcriptStrategies";
+
+/** One caption line, timed in seconds from the start of the video */
+export interface TranscriptSegment {
+    text: string;
+    start: number;
+    duration: number;
+}
+
+/** A chapter boundary, in seconds from the start of the video */
+export interface TranscriptChapter {
+    title: string;
+    start: number;
+}
 
 export interface TranscriptResult {
     text: string;
     source: string;
+    segments: TranscriptSegment[];
+    chapters: TranscriptChapter[];
+    /** Caption track language as reported by the strategy, when known */
+    language: string | null;
+    /** The exact caption track used, when the strategy knows it */
+    track: CaptionTrackSummary | null;
+}
+
+/** One strategy run, as reported in the API response */
+export interface TranscriptAttempt {
+    strategy: string;
+    ok: boolean;
+    durationMs: number;
+    /** Why the strategy failed; null when it succeeded */
+    error: string | null;
+    timedOut: boolean;
+}
+
+export class StrategyTimeoutError extends Error {
+    constructor(label: string, timeoutMs: number) {
+        super(`${label} timed out after ${timeoutMs / 1000}s`);
+        this.name = "StrategyTimeoutError";
+    }
 }
 
 /**
- * Fetches transcript using a multi-strategy approach to handle Vercel/IP blocking.
- * 1. youtubei.js (InnerTube): Emulates a real Android/Web client (most robust).
- * 2. youtube-caption-extractor: Fallback scraping method.
+ * Run one strategy with its timeout. The strategy's signal is aborted on
+ * timeout, or when `signal` is, so work that can be cancelled (downloads,
+ * child processes) stops; anything else is abandoned.
  */
-export async function fetchTranscriptWithFallback(
-    videoId: string
+async function runStrategy(
+    strategy: TranscriptStrategy,
+    videoId: string,
+    context: Omit<StrategyContext, "signal">,
+    signal?: AbortSignal
 ): Promise<TranscriptResult | null> {
-    const errors: string[] = [];
-
-    // Strategy 1: youtubei.js (InnerTube)
-    // This library emulates internal YouTube API calls and is more resistant to bot detection
-    try {
-        console.log(`[Transcript] Strategy 1: Attempting youtubei.js (InnerTube)...`);
+    const timeoutMs = getStrategyTimeoutMs(strategy);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort = () => {};
 
-        const youtube = await Innertube.create();
-        const info = await youtube.getInfo(videoId);
-        const transcriptData = await info.getTranscript();
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new StrategyTimeoutError(strategy.label, timeoutMs));
+        }, timeoutMs);
+        onAbort = () => {
+            controller.abort(signal?.reason);
+            reject(signal?.reason);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
 
-        if (transcriptData && transcriptData.transcript?.content?.body?.initial_segments) {
-            const segments = transcriptData.transcript.content.body.initial_segments;
-
-            // Extract text from segments
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const text = segments.map((seg: any) => seg.snippet.text).join(" ");
-
-            if (text.length > 50) {
-                console.log(`[Transcript] Success (youtubei.js): ${text.length} chars`);
-                return { text, source: 'youtubei.js (InnerTube)' };
-            }
-        }
-    } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        console.log(`[Transcript] Strategy 1 failed: ${msg}`);
-        errors.push(`youtubei.js: ${msg}`);
+    const strategyContext: StrategyContext = { ...context, signal: controller.signal };
+    try {
+        return await Promise.race([strategy.fetch(videoId, strategyContext), timeout]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        // Hints found by the strategy (e.g. the caption language) carry over to the next one
+        context.language = strategyContext.language;
     }
+}
 
-    // Strategy 2: youtube-caption-extractor (Fallback)
-    try {
-        console.log(`[Transcript] Strategy 2: Attempting youtube-caption-extractor...`);
-        // Try English first, then auto-generated
-        const langs = ["en", "en-US", "en-GB", "auto"];
+/**
+ * Fetch a transcript by trying each configured strategy in turn (see
+ * `getTranscriptStrategies`) until one returns a transcript. Each strategy
+ * has its own timeout, so a hanging client cannot stall the request.
+ *
+ * `onEvent` is notified as each strategy is attempted, fails or succeeds;
+ * `diagnostics` records every attempt whether or not one succeeded.
+ * Throws as soon as `signal` is aborted.
+ */
+export async function fetchTranscriptWithFallback(
+    videoId: string,
+    onEvent: (event: GenerationEvent) => void = () => {},
+    preference: CaptionPreference = {},
+    signal?: AbortSignal
+): Promise<{ result: TranscriptResult | null; diagnostics: TranscriptAttempt[] }> {
+    const diagnostics: TranscriptAttempt[] = [];
+    const context: Omit<StrategyContext, "signal"> = { preference };
+    const strategies = getTranscriptStrategies();
 
-        for (const lang of langs) {
-            try {
-                const subtitles = await getSubtitles({ videoID: videoId, lang });
+    for (const [i, strategy] of strategies.entries()) {
+        console.log(`[Transcript] Strategy ${i + 1}/${strategies.length}: Attempting ${strategy.label}...`);
+        signal?.throwIfAborted();
+        onEvent({ type: "transcript-attempt", strategy: strategy.label });
+        const startedAt = Date.now();
 
-                if (subtitles && subtitles.length > 0) {
-                    const text = subtitles.map((s: { text: string }) => s.text).join(" ");
+        try {
+            const result = await runStrategy(strategy, videoId, context, signal);
+            const durationMs = Date.now() - startedAt;
 
-                    if (text.trim().length >= 50) {
-                        console.log(`[Transcript] Success (youtube-caption-extractor/${lang}): ${text.length} chars`);
-                        return { text, source: `youtube-caption-extractor (${lang})` };
-                    }
-                }
-            } catch {
-                // Try next language silently
+            if (result) {
+                const detail = result.track?.name ?? result.language;
+                console.log(`[Transcript] Success (${strategy.label}): ${result.text.length} chars in ${durationMs}ms`);
+                onEvent({
+                    type: "transcript-success",
+                    strategy: detail ? `${strategy.label} (${detail})` : strategy.label,
+                    chars: result.text.length,
+                });
+                diagnostics.push({ strategy: strategy.id, ok: true, durationMs, error: null, timedOut: false });
+                return { result, diagnostics };
             }
+
+            console.log(`[Transcript] ${strategy.label} found no transcript`);
+            diagnostics.push({ strategy: strategy.id, ok: false, durationMs, error: "No transcript found", timedOut: false });
+            onEvent({ type: "transcript-failed", strategy: strategy.label, error: "No transcript found" });
+        } catch (err) {
+            signal?.throwIfAborted();
+            const msg = err instanceof Error ? err.message : String(err);
+            console.log(`[Transcript] ${strategy.label} failed: ${msg}`);
+            diagnostics.push({
+                strategy: strategy.id,
+                ok: false,
+                durationMs: Date.now() - startedAt,
+                error: msg,
+                timedOut: err instanceof StrategyTimeoutError,
+            });
+            onEvent({ type: "transcript-failed", strategy: strategy.label, error: msg });
         }
-    } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        console.log(`[Transcript] Strategy 2 failed: ${msg}`);
-        errors.push(`youtube-caption-extractor: ${msg}`);
     }
 
     console.log(`[Transcript] All strategies failed.`);
-    // Turn array of errors into a single string for better debugging upstream
-    if (errors.length > 0) {
-        console.error(`[Transcript] Failure Details:\n${errors.join('\n')}`);
-        throw new Error(`Transcript extraction failed. Details:\n${errors.join('\n')}`);
+    if (diagnostics.length > 0) {
+        console.error(`[Transcript] Failure Details:\n${diagnostics.map(d => `${d.strategy}: ${d.error}`).join("\n")}`);
     }
 
-    return null;
+    return { result: null, diagnostics };
 }
-
-
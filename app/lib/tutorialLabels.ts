@@ -0,0 +1,269 @@
+import { DEFAULT_OUTPUT_LANGUAGE } from "@/app/lib/generationOptions";
+
+// Fixed text the renderer adds around what the model wrote: headings of the
+// document's own parts, step numbers, "Watch at" links and the video header.
+// The model writes the tutorial in the output language, so these follow it.
+// Client-safe: the PDF export builds the same headings in the browser.
+
+export interface TutorialLabels {
+    overview: string;
+    prerequisites: string;
+    tableOfContents: string;
+    summary: string;
+    nextSteps: string;
+    /** "Step 1.2" */
+    step: (number: string) => string;
+    /** Link to a step's moment: "Watch at 12:34" */
+    watchAt: (time: string) => string;
+    /** Link to a section's range: "Watch 12:34 - 15:10" */
+    watchRange: (start: string, end: string) => string;
+    /** Alt text of a step's screenshot: "Screen at 12:34" */
+    screenAt: (time: string) => string;
+    /** Shown under code blocks confirmed by the verification pass */
+    verifiedCode: string;
+    // Source video header
+    video: string;
+    recording: string;
+    channel: string;
+    published: string;
+    length: string;
+    views: string;
+    tags: string;
+}
+
+/** One entry per code in OUTPUT_LANGUAGES */
+const TUTORIAL_LABELS: Record<string, TutorialLabels> = {
+    en: {
+        overview: "Overview",
+        prerequisites: "Prerequisites",
+        tableOfContents: "Table of Contents",
+        summary: "Summary",
+        nextSteps: "Next Steps",
+        step: number => `Step ${number}`,
+        watchAt: time => `Watch at ${time}`,
+        watchRange: (start, end) => `Watch ${start} - ${end}`,
+        screenAt: time => `Screen at ${time}`,
+        verifiedCode: "Verified against the code shown in the video",
+        video: "Video",
+        recording: "Recording",
+        channel: "Channel",
+        published: "Published",
+        length: "Length",
+        views: "Views",
+        tags: "Tags",
+    },
+    fr: {
+        overview: "Présentation",
+        prerequisites: "Prérequis",
+        tableOfContents: "Table des matières",
+        summary: "Résumé",
+        nextSteps: "Étapes suivantes",
+        step: number => `Étape ${number}`,
+        watchAt: time => `Voir à ${time}`,
+        watchRange: (start, end) => `Voir ${start} - ${end}`,
+        screenAt: time => `Écran à ${time}`,
+        verifiedCode: "Vérifié d'après le code montré dans la vidéo",
+        video: "Vidéo",
+        recording: "Enregistrement",
+        channel: "Chaîne",
+        published: "Publiée le",
+        length: "Durée",
+        views: "Vues",
+        tags: "Tags",
+    },
+    es: {
+        overview: "Descripción general",
+        prerequisites: "Requisitos previos",
+        tableOfContents: "Índice",
+        summary: "Resumen",
+        nextSteps: "Próximos pasos",
+        step: number => `Paso ${number}`,
+        watchAt: time => `Ver en ${time}`,
+        watchRange: (start, end) => `Ver ${start} - ${end}`,
+        screenAt: time => `Pantalla en ${time}`,
+        verifiedCode: "Verificado con el código que se muestra en el vídeo",
+        video: "Vídeo",
+        recording: "Grabación",
+        channel: "Canal",
+        published: "Publicado",
+        length: "Duración",
+        views: "Visualizaciones",
+        tags: "Etiquetas",
+    },
+    ar: {
+        overview: "نظرة عامة",
+        prerequisites: "المتطلبات المسبقة",
+        tableOfContents: "جدول المحتويات",
+        summary: "الملخص",
+        nextSteps: "الخطوات التالية",
+        step: number => `الخطوة ${number}`,
+        watchAt: time => `شاهد عند ${time}`,
+        watchRange: (start, end) => `شاهد ${start} - ${end}`,
+        screenAt: time => `الشاشة عند ${time}`,
+        verifiedCode: "تم التحقق منه مقابل الكود المعروض في الفيديو",
+        video: "الفيديو",
+        recording: "التسجيل",
+        channel: "القناة",
+        published: "تاريخ النشر",
+        length: "المدة",
+        views: "المشاهدات",
+        tags: "الوسوم",
+    },
+    pt: {
+        overview: "Visão geral",
+        prerequisites: "Pré-requisitos",
+        tableOfContents: "Índice",
+        summary: "Resumo",
+        nextSteps: "Próximos passos",
+        step: number => `Passo ${number}`,
+        watchAt: time => `Assistir em ${time}`,
+        watchRange: (start, end) => `Assistir ${start} - ${end}`,
+        screenAt: time => `Tela em ${time}`,
+        verifiedCode: "Verificado com o código mostrado no vídeo",
+        video: "Vídeo",
+        recording: "Gravação",
+        channel: "Canal",
+        published: "Publicado em",
+        length: "Duração",
+        views: "Visualizações",
+        tags: "Tags",
+    },
+    hi: {
+        overview: "अवलोकन",
+        prerequisites: "पूर्वापेक्षाएँ",
+        tableOfContents: "विषय-सूची",
+        summary: "सारांश",
+        nextSteps: "अगले कदम",
+        step: number => `चरण ${number}`,
+        watchAt: time => `${time} से देखें`,
+        watchRange: (start, end) => `देखें ${start} - ${end}`,
+        screenAt: time => `${time} पर स्क्रीन`,
+        verifiedCode: "वीडियो में दिखाए गए कोड से सत्यापित",
+        video: "वीडियो",
+        recording: "रिकॉर्डिंग",
+        channel: "चैनल",
+        published: "प्रकाशित",
+        length: "अवधि",
+        views: "व्यूज़",
+        tags: "टैग",
+    },
+    de: {
+        overview: "Überblick",
+        prerequisites: "Voraussetzungen",
+        tableOfContents: "Inhaltsverzeichnis",
+        summary: "Zusammenfassung",
+        nextSteps: "Nächste Schritte",
+        step: number => `Schritt ${number}`,
+        watchAt: time => `Ansehen ab ${time}`,
+        watchRange: (start, end) => `Ansehen ${start} - ${end}`,
+        screenAt: time => `Bildschirm bei ${time}`,
+        verifiedCode: "Mit dem im Video gezeigten Code abgeglichen",
+        video: "Video",
+        recording: "Aufnahme",
+        channel: "Kanal",
+        published: "Veröffentlicht",
+        length: "Länge",
+        views: "Aufrufe",
+        tags: "Tags",
+    },
+    it: {
+        overview: "Panoramica",
+        prerequisites: "Prerequisiti",
+        tableOfContents: "Indice",
+        summary: "Riepilogo",
+        nextSteps: "Prossimi passi",
+        step: number => `Passo ${number}`,
+        watchAt: time => `Guarda da ${time}`,
+        watchRange: (start, end) => `Guarda ${start} - ${end}`,
+        screenAt: time => `Schermata a ${time}`,
+        verifiedCode: "Verificato con il codice mostrato nel video",
+        video: "Video",
+        recording: "Registrazione",
+        channel: "Canale",
+        published: "Pubblicato",
+        length: "Durata",
+        views: "Visualizzazioni",
+        tags: "Tag",
+    },
+    ru: {
+        overview: "Обзор",
+        prerequisites: "Требования",
+        tableOfContents: "Содержание",
+        summary: "Итоги",
+        nextSteps: "Дальнейшие шаги",
+        step: number => `Шаг ${number}`,
+        watchAt: time => `Смотреть с ${time}`,
+        watchRange: (start, end) => `Смотреть ${start} - ${end}`,
+        screenAt: time => `Экран на ${time}`,
+        verifiedCode: "Проверено по коду, показанному в видео",
+        video: "Видео",
+        recording: "Запись",
+        channel: "Канал",
+        published: "Опубликовано",
+        length: "Длительность",
+        views: "Просмотры",
+        tags: "Теги",
+    },
+    tr: {
+        overview: "Genel Bakış",
+        prerequisites: "Ön Koşullar",
+        tableOfContents: "İçindekiler",
+        summary: "Özet",
+        nextSteps: "Sonraki Adımlar",
+        step: number => `Adım ${number}`,
+        watchAt: time => `İzle: ${time}`,
+        watchRange: (start, end) => `İzle: ${start} - ${end}`,
+        screenAt: time => `Ekran: ${time}`,
+        verifiedCode: "Videoda gösterilen koda göre doğrulandı",
+        video: "Video",
+        recording: "Kayıt",
+        channel: "Kanal",
+        published: "Yayınlanma",
+        length: "Süre",
+        views: "Görüntülenme",
+        tags: "Etiketler",
+    },
+    ja: {
+        overview: "概要",
+        prerequisites: "前提条件",
+        tableOfContents: "目次",
+        summary: "まとめ",
+        nextSteps: "次のステップ",
+        step: number => `ステップ ${number}`,
+        watchAt: time => `${time} から視聴`,
+        watchRange: (start, end) => `視聴 ${start} - ${end}`,
+        screenAt: time => `${time} の画面`,
+        verifiedCode: "動画に映っているコードで検証済み",
+        video: "動画",
+        recording: "録画",
+        channel: "チャンネル",
+        published: "公開日",
+        length: "長さ",
+        views: "視聴回数",
+        tags: "タグ",
+    },
+    zh: {
+        overview: "概述",
+        prerequisites: "前提条件",
+        tableOfContents: "目录",
+        summary: "总结",
+        nextSteps: "后续步骤",
+        step: number => `步骤 ${number}`,
+        watchAt: time => `从 ${time} 观看`,
+        watchRange: (start, end) => `观看 ${start} - ${end}`,
+        screenAt: time => `${time} 的画面`,
+        verifiedCode: "已对照视频中展示的代码验证",
+        video: "视频",
+        recording: "录屏",
+        channel: "频道",
+        published: "发布日期",
+        length: "时长",
+        views: "观看次数",
+        tags: "标签",
+    },
+};
+
+/** Labels for an OUTPUT_LANGUAGES code; English for codes without a table */
+export function getTutorialLabels(language: string = DEFAULT_OUTPUT_LANGUAGE): TutorialLabels {
+    return TUTORIAL_LABELS[language] ?? TUTORIAL_LABELS[DEFAULT_OUTPUT_LANGUAGE];
+}
@@ -0,0 +1,199 @@
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { toString } from "mdast-util-to-string";
+import type { Code, Root } from "mdast";
+import type {
+    CodeSnippet,
+    TutorialContinuation,
+    TutorialDocument,
+    TutorialSection,
+    TutorialStep,
+} from "@/app/lib/tutorialSchema";
+
+// Chunks overlap by a few sentences, so only the first steps of a chunk can
+// repeat the last steps written before it
+const OVERLAP_WINDOW_STEPS = 3;
+const DUPLICATE_TEXT_SIMILARITY = 0.6;
+
+// Front and back matter belongs to the document, not to a section
+const RESERVED_SECTION_TITLES = new Set([
+    "overview",
+    "introduction",
+    "prerequisites",
+    "table of contents",
+    "contents",
+    "summary",
+    "conclusion",
+    "next steps",
+]);
+
+const PART_SUFFIX = /\s*\(part \d+\)\s*$/i;
+
+export interface MergeOptions {
+    /** False when the parts were written from disjoint transcript ranges and nothing can be repeated */
+    overlapping?: boolean;
+    /**
+     * Titles of the author's chapters the sections were told to use. A
+     * chapter named "Introduction" or "Summary" is content, not front or back
+     * matter, so sections with these titles are never dropped.
+     */
+    chapterTitles?: string[];
+}
+
+function baseTitle(title: string): string {
+    return title.replace(PART_SUFFIX, "").trim().toLowerCase();
+}
+
+function normalizeCode(code: string): string {
+    return code.replace(/\s+/g, " ").trim();
+}
+
+function words(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[a-z0-9_]{3,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const word of a) if (b.has(word)) shared++;
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Move fenced code the model left in a step's explanation into `codeBlocks`,
+ * cutting it out of the markdown by its position in the parsed tree
+ */
+function hoistCode(step: TutorialStep): TutorialStep {
+    const tree: Root = fromMarkdown(step.explanation);
+    const fences = tree.children.filter((node): node is Code => node.type === "code");
+    if (fences.length === 0) return step;
+
+    let explanation = step.explanation;
+    for (const fence of [...fences].reverse()) {
+        const start = fence.position?.start.offset;
+        const end = fence.position?.end.offset;
+        if (start === undefined || end === undefined) continue;
+        explanation = explanation.slice(0, start) + explanation.slice(end);
+    }
+
+    const hoisted: CodeSnippet[] = fences
+        .filter(fence => fence.value.trim())
+        .map(fence => ({ language: fence.lang?.toLowerCase() || "plaintext", filename: null, code: fence.value, verified: false }));
+
+    return {
+        ...step,
+        explanation: explanation.replace(/\n{3,}/g, "\n\n").trim(),
+        codeBlocks: [...hoisted, ...step.codeBlocks],
+    };
+}
+
+/**
+ * Plain text of a step as it will read once rendered, so formatting
+ * differences (bold, links, inline code) don't hide a repeat
+ */
+function stepText(step: TutorialStep): Set<string> {
+    const prose = [step.title, step.explanation, ...step.notes].join("\n\n");
+    return words(toString(fromMarkdown(prose)));
+}
+
+function isDuplicateStep(step: TutorialStep, previous: TutorialStep): boolean {
+    const code = new Set(previous.codeBlocks.map(block => normalizeCode(block.code)));
+    if (step.codeBlocks.length > 0 && step.codeBlocks.every(block => code.has(normalizeCode(block.code)))) {
+        return true;
+    }
+    return jaccard(stepText(step), stepText(previous)) >= DUPLICATE_TEXT_SIMILARITY;
+}
+
+/**
+ * Drop the leading steps of `incoming` that repeat one of the last steps
+ * already written. Stops at the first new step so later repeats, which are
+ * deliberate (e.g. revisiting a file), survive.
+ */
+function dropOverlap(incoming: TutorialSection[], written: TutorialSection[]): TutorialSection[] {
+    const recent = written.flatMap(section => section.steps).slice(-OVERLAP_WINDOW_STEPS);
+    if (recent.length === 0) return incoming;
+
+    const result: TutorialSection[] = [];
+    let dropping = true;
+    let dropped = 0;
+
+    for (const section of incoming) {
+        const steps = section.steps.filter(step => {
+            if (!dropping || dropped >= OVERLAP_WINDOW_STEPS) return true;
+            if (recent.some(previous => isDuplicateStep(step, previous))) {
+                dropped++;
+                return false;
+            }
+            dropping = false;
+            return true;
+        });
+        if (steps.length > 0) result.push({ ...section, steps });
+    }
+
+    if (dropped > 0) {
+        console.log(`[Merge] Dropped ${dropped} step(s) repeated from the previous part`);
+    }
+    return result;
+}
+
+/**
+ * Combine the first part of a tutorial with the parts written after it:
+ * - front/back matter sections ("Overview", "Summary"...) don't become sections, the document has
+ *   its own: their new steps join the previous section, and they are dropped when they have none.
+ *   Sections carrying the title of one of the author's chapters are kept as they are
+ * - steps repeated by the chunk overlap are removed (unless `overlapping` is false)
+ * - a part that starts inside the previous section (same title, or "(Part n)" of it) continues that section
+ * - fenced code left in explanations is moved into `codeBlocks`
+ *
+ * Numbering and the Table of Contents come from the renderer, so they are
+ * global by construction.
+ */
+export function mergeTutorialParts(
+    first: TutorialDocument,
+    continuations: TutorialContinuation[],
+    { overlapping = true, chapterTitles = [] }: MergeOptions = {}
+): TutorialDocument {
+    const chapters = new Set(chapterTitles.map(baseTitle));
+    const sections: TutorialSection[] = [];
+    let summary = first.summary;
+    let nextSteps = first.nextSteps;
+
+    const append = (incoming: TutorialSection[]) => {
+        const cleaned = incoming.map(section => ({ ...section, steps: section.steps.map(hoistCode) }));
+
+        (overlapping ? dropOverlap(cleaned, sections) : cleaned).forEach((section, i) => {
+            const previous = sections[sections.length - 1];
+            const title = baseTitle(section.title);
+            if (!chapters.has(title) && RESERVED_SECTION_TITLES.has(title)) {
+                // A continuation often opens with an "Overview" of where it picks
+                // up: what it teaches belongs to the section before it
+                const written = sections.flatMap(({ steps }) => steps);
+                const steps = section.steps.filter(step => !written.some(earlier => isDuplicateStep(step, earlier)));
+                if (steps.length === 0) {
+                    console.log(`[Merge] Dropped "${section.title}" section (${section.steps.length} steps, none new)`);
+                } else if (previous) {
+                    console.log(`[Merge] Moved ${steps.length} step(s) of "${section.title}" into "${previous.title}"`);
+                    previous.steps.push(...steps);
+                } else {
+                    sections.push({ ...section, steps });
+                }
+                return;
+            }
+
+            if (i === 0 && previous && baseTitle(previous.title) === baseTitle(section.title)) {
+                previous.title = previous.title.replace(PART_SUFFIX, "");
+                previous.steps.push(...section.steps);
+            } else {
+                sections.push({ ...section, steps: [...section.steps] });
+            }
+        });
+    };
+
+    append(first.sections);
+    for (const continuation of continuations) {
+        append(continuation.sections);
+        if (continuation.summary.length > 0) summary = continuation.summary;
+        if (continuation.nextSteps.length > 0) nextSteps = continuation.nextSteps;
+    }
+
+    return { ...first, sections, summary, nextSteps };
+}
@@ -0,0 +1,148 @@
+import type { CodeSnippet, TimeRange, TutorialDocument, TutorialSection, TutorialStep } from "@/app/lib/tutorialSchema";
+import type { VideoMetadata } from "@/app/lib/videoMetadata";
+import { formatTimestamp, watchUrl } from "@/app/lib/timestamps";
+import { getTutorialLabels } from "@/app/lib/tutorialLabels";
+
+export interface RenderOptions {
+    /** Adds "Watch at" links to sections and steps that have a time range */
+    videoId?: string | null;
+    /** Adds a header block describing the source video under the title */
+    video?: VideoMetadata | null;
+    /** Code from OUTPUT_LANGUAGES the tutorial was written in; headings and labels follow it */
+    language?: string;
+}
+
+// Tags shown in the header; videos often carry dozens of SEO keywords
+const MAX_HEADER_TAGS = 12;
+
+/**
+ * GitHub-style heading anchor, used for Table of Contents links. Letters of
+ * any script are kept, as GitHub does for headings in other languages.
+ */
+export function slugify(heading: string): string {
+    return heading
+        .toLowerCase()
+        .trim()
+        .replace(/[^\p{L}\p{M}\p{N}_\s-]/gu, "")
+        .replace(/\s+/g, "-");
+}
+
+export function sectionHeading(section: TutorialSection, number: number): string {
+    return `${number}. ${section.title}`;
+}
+
+export function stepHeading(step: TutorialStep, sectionNumber: number, stepNumber: number, language?: string): string {
+    return `${getTutorialLabels(language).step(`${sectionNumber}.${stepNumber}`)}: ${step.title}`;
+}
+
+/** Alt text of a step's screenshot: "Screen at 12:34" */
+export function screenshotLabel(time: number, language?: string): string {
+    return getTutorialLabels(language).screenAt(formatTimestamp(time));
+}
+
+/** Label for a step's link: "Watch at 12:34" */
+export function watchLabel(time: TimeRange, language?: string): string {
+    return getTutorialLabels(language).watchAt(formatTimestamp(time.start));
+}
+
+/** Label for a section's link: "Watch 12:34 - 15:10" */
+export function watchRangeLabel(time: TimeRange, language?: string): string {
+    return getTutorialLabels(language).watchRange(formatTimestamp(time.start), formatTimestamp(time.end));
+}
+
+function renderWatchLink(label: string, time: TimeRange | null, options: RenderOptions): string | null {
+    if (!time || !options.videoId) return null;
+    return `[▶ ${label}](${watchUrl(options.videoId, time.start)})`;
+}
+
+/**
+ * Source video details as a blockquote under the title: link (or the
+ * recording's file name), channel, publish date, length, views and tags
+ * (whatever is known)
+ */
+export function renderVideoHeader(video: VideoMetadata, language?: string): string {
+    const labels = getTutorialLabels(language);
+    const details = [
+        video.channelName && `**${labels.channel}:** ${video.channelName}`,
+        video.publishDate && `**${labels.published}:** ${video.publishDate}`,
+        video.duration && `**${labels.length}:** ${formatTimestamp(video.duration)}`,
+        video.viewCount !== null && `**${labels.views}:** ${video.viewCount.toLocaleString(language ?? "en-US")}`,
+    ].filter(Boolean);
+
+    const title = video.title.replace(/[[\]]/g, "\\$&");
+    const lines = [video.videoId
+        ? `**${labels.video}:** [${title}](https://www.youtube.com/watch?v=${video.videoId})`
+        : `**${labels.recording}:** ${title}`];
+    if (details.length > 0) lines.push(details.join(" · "));
+    if (video.tags.length > 0) lines.push(`**${labels.tags}:** ${video.tags.slice(0, MAX_HEADER_TAGS).join(", ")}`);
+
+    return lines.map(line => `> ${line}`).join("\n>\n");
+}
+
+function renderList(items: string[]): string {
+    return items.map(item => `- ${item}`).join("\n");
+}
+
+function renderCode(block: CodeSnippet, language?: string): string {
+    // Use a longer fence when the code itself contains one
+    const fence = block.code.includes("```") ? "````" : "```";
+    const label = block.filename ? `**\`${block.filename}\`**\n\n` : "";
+    const verified = block.verified ? `\n\n_${getTutorialLabels(language).verifiedCode}_` : "";
+    return `${label}${fence}${block.language}\n${block.code}\n${fence}${verified}`;
+}
+
+function renderStep(step: TutorialStep, sectionNumber: number, stepNumber: number, options: RenderOptions): string {
+    const parts = [`### ${stepHeading(step, sectionNumber, stepNumber, options.language)}`];
+
+    const link = step.time && renderWatchLink(watchLabel(step.time, options.language), step.time, options);
+    if (link) parts.push(link);
+
+    if (step.explanation) parts.push(step.explanation);
+    if (step.screenshot) parts.push(`![${screenshotLabel(step.screenshot.time, options.language)}](${step.screenshot.src})`);
+    parts.push(...step.codeBlocks.map(block => renderCode(block, options.language)));
+    parts.push(...step.notes.map(note => `> ${note.replace(/\n/g, "\n> ")}`));
+
+    return parts.join("\n\n");
+}
+
+export function renderSectionMarkdown(section: TutorialSection, number: number, options: RenderOptions = {}): string {
+    const parts = [`## ${sectionHeading(section, number)}`];
+
+    const link = section.time && renderWatchLink(watchRangeLabel(section.time, options.language), section.time, options);
+    if (link) parts.push(link);
+    if (section.description) parts.push(section.description);
+    parts.push(...section.steps.map((step, i) => renderStep(step, number, i + 1, options)));
+
+    return parts.join("\n\n");
+}
+
+/**
+ * The single place a tutorial becomes markdown. Sections and steps are
+ * numbered here and the Table of Contents is built from the same headings.
+ * "Watch" links sit on their own line so headings (and anchors) stay clean.
+ * Fixed headings and labels are in `options.language`.
+ */
+export function renderTutorialMarkdown(doc: TutorialDocument, options: RenderOptions = {}): string {
+    const labels = getTutorialLabels(options.language);
+    const toc = doc.sections
+        .map((section, i) => {
+            const heading = sectionHeading(section, i + 1);
+            return `- [${heading}](#${slugify(heading)})`;
+        })
+        .join("\n");
+
+    const parts = [`# ${doc.title}`];
+
+    if (options.video) parts.push(renderVideoHeader(options.video, options.language));
+
+    if (doc.overview) parts.push(`## ${labels.overview}\n\n${doc.overview}`);
+    if (doc.prerequisites.length > 0) parts.push(`## ${labels.prerequisites}\n\n${renderList(doc.prerequisites)}`);
+    if (doc.sections.length > 0) parts.push(`## ${labels.tableOfContents}\n\n${toc}`);
+
+    parts.push(...doc.sections.map((section, i) => renderSectionMarkdown(section, i + 1, options)));
+
+    if (doc.summary.length > 0) parts.push(`## ${labels.summary}\n\n${renderList(doc.summary)}`);
+    if (doc.nextSteps.length > 0) parts.push(`## ${labels.nextSteps}\n\n${renderList(doc.nextSteps)}`);
+
+    return parts.join("\n\n") + "\n";
+}
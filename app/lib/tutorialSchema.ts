@@ -0,0 +1,254 @@
+// Typed tutorial model requested from the LLM as JSON. Everything downstream
+// (merging, markdown rendering, PDF export) works from these types, so keep
+// this file free of server-only imports.
+
+import { parseTimestamp } from "@/app/lib/timestamps";
+
+/** Span of the video, in seconds, that a section or step was written from */
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+export interface CodeSnippet {
+    language: string;
+    filename: string | null;
+    code: string;
+    /** Checked against (and corrected from) the code shown in the video's frames */
+    verified: boolean;
+}
+
+/** A frame of the video shown with a step */
+export interface StepScreenshot {
+    /** Path of the image asset, relative to the tutorial (`images/step-2-1.jpg`) */
+    src: string;
+    /** Seconds into the video the frame was taken at */
+    time: number;
+}
+
+/** A file stored next to the tutorial and referenced from its markdown */
+export interface TutorialAsset {
+    /** Relative path, as used in the markdown */
+    path: string;
+    mimeType: string;
+    /** Base64-encoded content */
+    data: string;
+}
+
+export interface TutorialStep {
+    title: string;
+    /** Markdown prose; code belongs in `codeBlocks`, not in fences here */
+    explanation: string;
+    codeBlocks: CodeSnippet[];
+    /** Tips and warnings, rendered as blockquotes */
+    notes: string[];
+    /** Null when the transcript has no timings */
+    time: TimeRange | null;
+    /** The model found a picture of the screen useful here (UI, layout, visual result) */
+    wantsScreenshot: boolean;
+    /** Attached after generation when screenshots are requested */
+    screenshot: StepScreenshot | null;
+}
+
+export interface TutorialSection {
+    title: string;
+    description: string;
+    steps: TutorialStep[];
+    /** From the start of its first step to the end of its last one */
+    time: TimeRange | null;
+}
+
+export interface TutorialDocument {
+    title: string;
+    overview: string;
+    prerequisites: string[];
+    sections: TutorialSection[];
+    summary: string[];
+    nextSteps: string[];
+}
+
+/** What continuation chunks return: new sections, plus the wrap-up on the last chunk */
+export type TutorialContinuation = Pick<TutorialDocument, "sections" | "summary" | "nextSteps">;
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+/** Shape description embedded in prompts */
+export const SECTION_JSON_SHAPE = `{
+  "title": "Section title, without numbering",
+  "description": "Optional 1-2 sentence introduction (markdown)",
+  "steps": [
+    {
+      "title": "Specific action, without numbering",
+      "timestamp": "m:ss of the [m:ss] transcript marker where this step's content starts, or null",
+      "explanation": "Brief markdown explanation of what and why. No code fences here.",
+      "codeBlocks": [
+        { "language": "typescript", "filename": "src/app.ts or null", "code": "complete, working code" }
+      ],
+      "notes": ["Optional tips or warnings"],
+      "screenshot": "true if a picture of the screen during this step would help the reader (UI, layout, visual result), otherwise false"
+    }
+  ]
+}`;
+
+export const DOCUMENT_JSON_SHAPE = `{
+  "title": "Tutorial title inferred from the content",
+  "overview": "2-3 sentences: what we're building and why it matters",
+  "prerequisites": ["required knowledge, tools, versions"],
+  "sections": [${SECTION_JSON_SHAPE.replace(/\n/g, "\n    ")}],
+  "summary": ["key takeaway"],
+  "nextSteps": ["where to go from here"]
+}`;
+
+export const CONTINUATION_JSON_SHAPE = `{
+  "sections": [${SECTION_JSON_SHAPE.replace(/\n/g, "\n    ")}],
+  "summary": ["key takeaway (final part only, otherwise [])"],
+  "nextSteps": ["where to go from here (final part only, otherwise [])"]
+}`;
+
+// Models number things despite instructions; numbering is the renderer's job
+const SECTION_NUMBER_PREFIX = /^\s*(?:section\s+)?\d+(?:\.\d+)*[.:)]?\s+/i;
+const STEP_NUMBER_PREFIX = /^\s*(?:step\s+)?\d+(?:\.\d+)*[.:)]?\s*/i;
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(raw: Raw, key: string, path: string, errors: string[], required = true): string {
+    const value = raw[key];
+    if (typeof value === "string") return value.trim();
+    if (value === undefined || value === null) {
+        if (required) errors.push(`${path}.${key} is required`);
+        return "";
+    }
+    errors.push(`${path}.${key} must be a string`);
+    return "";
+}
+
+function readStringArray(raw: Raw, key: string, path: string, errors: string[]): string[] {
+    const value = raw[key];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+        errors.push(`${path}.${key} must be an array of strings`);
+        return [];
+    }
+    return value.map(item => (item as string).trim()).filter(Boolean);
+}
+
+/**
+ * A step's start as cited by the model. Unparseable values are dropped rather
+ * than rejected: the timeline fills the gap from the transcript range.
+ */
+function readTimestamp(value: unknown): TimeRange | null {
+    const start = parseTimestamp(value);
+    return start === null ? null : { start, end: start };
+}
+
+function validateCode(raw: unknown, path: string, errors: string[]): CodeSnippet {
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return { language: "", filename: null, code: "", verified: false };
+    }
+
+    const code = typeof raw.code === "string" ? raw.code.replace(/\n+$/, "") : "";
+    if (typeof raw.code !== "string") errors.push(`${path}.code must be a string`);
+    else if (!code.trim()) errors.push(`${path}.code must not be empty`);
+
+    return {
+        language: readString(raw, "language", path, errors, false).toLowerCase() || "plaintext",
+        filename: typeof raw.filename === "string" && raw.filename.trim() ? raw.filename.trim() : null,
+        code,
+        // Only the verification pass sets this, never the model writing the tutorial
+        verified: false,
+    };
+}
+
+function validateStep(raw: unknown, path: string, errors: string[]): TutorialStep {
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return { title: "", explanation: "", codeBlocks: [], notes: [], time: null, wantsScreenshot: false, screenshot: null };
+    }
+
+    const codeBlocks = raw.codeBlocks ?? [];
+    if (!Array.isArray(codeBlocks)) errors.push(`${path}.codeBlocks must be an array`);
+
+    return {
+        title: readString(raw, "title", path, errors).replace(STEP_NUMBER_PREFIX, ""),
+        explanation: readString(raw, "explanation", path, errors, false),
+        codeBlocks: Array.isArray(codeBlocks)
+            ? codeBlocks.map((block, i) => validateCode(block, `${path}.codeBlocks[${i}]`, errors))
+            : [],
+        notes: readStringArray(raw, "notes", path, errors),
+        time: readTimestamp(raw.timestamp),
+        wantsScreenshot: raw.screenshot === true || raw.screenshot === "true",
+        screenshot: null,
+    };
+}
+
+function validateSectionAt(raw: unknown, path: string, errors: string[]): TutorialSection {
+    if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return { title: "", description: "", steps: [], time: null };
+    }
+
+    const steps = raw.steps;
+    if (!Array.isArray(steps) || steps.length === 0) {
+        errors.push(`${path}.steps must be a non-empty array`);
+    }
+
+    return {
+        title: readString(raw, "title", path, errors).replace(SECTION_NUMBER_PREFIX, ""),
+        description: readString(raw, "description", path, errors, false),
+        steps: Array.isArray(steps) ? steps.map((step, i) => validateStep(step, `${path}.steps[${i}]`, errors)) : [],
+        time: null,
+    };
+}
+
+function validateSections(raw: Raw, errors: string[]): TutorialSection[] {
+    const sections = raw.sections;
+    if (!Array.isArray(sections) || sections.length === 0) {
+        errors.push("sections must be a non-empty array");
+        return [];
+    }
+    return sections.map((section, i) => validateSectionAt(section, `sections[${i}]`, errors));
+}
+
+function result<T>(value: T, errors: string[]): ValidationResult<T> {
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+export function validateTutorialSection(raw: unknown): ValidationResult<TutorialSection> {
+    const errors: string[] = [];
+    const value = validateSectionAt(raw, "section", errors);
+    return result(value, errors);
+}
+
+export function validateTutorialDocument(raw: unknown): ValidationResult<TutorialDocument> {
+    if (!isObject(raw)) return { ok: false, errors: ["response must be a JSON object"] };
+
+    const errors: string[] = [];
+    const value: TutorialDocument = {
+        title: readString(raw, "title", "document", errors),
+        overview: readString(raw, "overview", "document", errors),
+        prerequisites: readStringArray(raw, "prerequisites", "document", errors),
+        sections: validateSections(raw, errors),
+        summary: readStringArray(raw, "summary", "document", errors),
+        nextSteps: readStringArray(raw, "nextSteps", "document", errors),
+    };
+    return result(value, errors);
+}
+
+export function validateTutorialContinuation(raw: unknown): ValidationResult<TutorialContinuation> {
+    if (!isObject(raw)) return { ok: false, errors: ["response must be a JSON object"] };
+
+    const errors: string[] = [];
+    const value: TutorialContinuation = {
+        sections: validateSections(raw, errors),
+        summary: readStringArray(raw, "summary", "document", errors),
+        nextSteps: readStringArray(raw, "nextSteps", "document", errors),
+    };
+    return result(value, errors);
+}
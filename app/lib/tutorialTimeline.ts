@@ -0,0 +1,62 @@
+import type { TimeRange, TutorialDocument, TutorialSection } from "@/app/lib/tutorialSchema";
+
+/**
+ * Pin every step of a freshly generated part inside the video range its
+ * transcript covered. Cited timestamps are clamped to the range and kept in
+ * order; steps without one start where the previous step did.
+ */
+export function anchorSections(sections: TutorialSection[], range: TimeRange): TutorialSection[] {
+    let cursor = range.start;
+
+    return sections.map(section => ({
+        ...section,
+        steps: section.steps.map(step => {
+            const cited = step.time?.start;
+            const start = cited === undefined
+                ? cursor
+                : Math.max(cursor, Math.min(range.end, Math.max(range.start, cited)));
+            cursor = start;
+            return { ...step, time: { start, end: start } };
+        }),
+    }));
+}
+
+/**
+ * Once all parts are merged, each step runs until the next one starts (the
+ * last one until `videoEnd`) and each section spans its steps. Without a
+ * `videoEnd` the transcript had no timings and every range is cleared.
+ */
+export function closeTimeRanges(document: TutorialDocument, videoEnd: number | null): TutorialDocument {
+    if (videoEnd === null) {
+        return {
+            ...document,
+            sections: document.sections.map(section => ({
+                ...section,
+                time: null,
+                steps: section.steps.map(step => ({ ...step, time: null })),
+            })),
+        };
+    }
+
+    const starts = document.sections.flatMap(section => section.steps.map(step => step.time?.start ?? null));
+    let index = 0;
+
+    const sections = document.sections.map(section => {
+        const steps = section.steps.map(step => {
+            const i = index++;
+            if (!step.time) return step;
+
+            const next = starts.slice(i + 1).find((start): start is number => start !== null);
+            return { ...step, time: { start: step.time.start, end: Math.max(step.time.start, next ?? videoEnd) } };
+        });
+
+        const times = steps.map(step => step.time).filter((t): t is TimeRange => t !== null);
+        const time = times.length > 0
+            ? { start: times[0].start, end: times[times.length - 1].end }
+            : null;
+
+        return { ...section, steps, time };
+    });
+
+    return { ...document, sections };
+}
@@ -0,0 +1,62 @@
+import type { Innertube } from "youtubei.js";
+import type { TranscriptChapter } from "@/app/lib/transcriptUtils";
+import { parseTimestamp } from "@/app/lib/timestamps";
+
+type VideoInfo = Awaited<ReturnType<Innertube["getInfo"]>>;
+
+// YouTube only turns a description into chapters with at least three
+// timestamps, the first at 0:00; the same rule keeps stray times out
+const MIN_DESCRIPTION_CHAPTERS = 3;
+
+// "00:00 Setup", "- 1:02:05 - Deploy", "(5:12) Auth", "Auth: 5:12"
+const TIME = String.raw`\(?\[?((?:\d+:)?\d{1,2}:\d{2})\]?\)?`;
+const SEPARATOR = String.raw`\s*[-–—:|.)]?\s*`;
+const LEADING_TIME = new RegExp(String.raw`^\s*(?:[-•*▶►]\s*)?${TIME}${SEPARATOR}(.+?)\s*$`);
+const TRAILING_TIME = new RegExp(String.raw`^\s*(?:[-•*▶►]\s*)?(.+?)${SEPARATOR}${TIME}\s*$`);
+
+/**
+ * Chapters from the timestamps at the start (or end) of description lines.
+ * Returns an empty list unless they form a valid chapter list: at least
+ * three, starting at 0:00, in increasing order.
+ */
+export function parseDescriptionChapters(description: string): TranscriptChapter[] {
+    const chapters: TranscriptChapter[] = [];
+
+    for (const line of description.split(/\r?\n/)) {
+        const leading = line.match(LEADING_TIME);
+        const trailing = leading ? null : line.match(TRAILING_TIME);
+        const [time, title] = leading ? [leading[1], leading[2]] : trailing ? [trailing[2], trailing[1]] : [];
+        if (!time || !title) continue;
+
+        const start = parseTimestamp(time);
+        if (start === null) continue;
+
+        // A timestamp earlier than the last one starts an unrelated list (e.g. "songs used")
+        const previous = chapters[chapters.length - 1];
+        if (previous && start <= previous.start) break;
+
+        chapters.push({ title: title.trim(), start });
+    }
+
+    return chapters.length >= MIN_DESCRIPTION_CHAPTERS && chapters[0].start === 0 ? chapters : [];
+}
+
+/**
+ * Chapters YouTube shows on the player bar (author-defined first, then
+ * auto-generated), falling back to parsing the description
+ */
+export function chaptersFromInfo(info: VideoInfo): TranscriptChapter[] {
+    const markers = info.player_overlays?.decorated_player_bar?.player_bar?.markers_map ?? [];
+    const ordered = [...markers].sort((a, b) =>
+        Number(b.marker_key === "DESCRIPTION_CHAPTERS") - Number(a.marker_key === "DESCRIPTION_CHAPTERS")
+    );
+
+    for (const marker of ordered) {
+        const chapters = (marker.value.chapters ?? [])
+            .map(chapter => ({ title: chapter.title.toString().trim(), start: chapter.time_range_start_millis / 1000 }))
+            .filter(chapter => chapter.title);
+        if (chapters.length > 1) return chapters;
+    }
+
+    return parseDescriptionChapters(info.basic_info.short_description ?? "");
+}
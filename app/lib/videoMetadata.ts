@@ -0,0 +1,113 @@
+import { Innertube, YTNodes } from "youtubei.js";
+import type { TranscriptChapter } from "@/app/lib/transcriptUtils";
+import { chaptersFromInfo } from "@/app/lib/videoChapters";
+
+/** What is known about a video; fields the source does not provide are null or empty */
+export interface VideoMetadata {
+    /** null for uploaded recordings */
+    videoId: string | null;
+    title: string;
+    /** Empty for uploaded recordings */
+    thumbnail: string;
+    /** Seconds */
+    duration: number | null;
+    channelName: string | null;
+    channelId: string | null;
+    /** ISO date, e.g. `2024-03-18` */
+    publishDate: string | null;
+    description: string;
+    tags: string[];
+    viewCount: number | null;
+    chapters: TranscriptChapter[];
+    /**
+     * youtubei.js has everything; oEmbed only the title, channel name and
+     * thumbnail; an uploaded recording its file name and duration
+     */
+    source: "youtubei" | "oembed" | "upload";
+}
+
+interface OEmbedResponse {
+    title?: string;
+    author_name?: string;
+    thumbnail_url?: string;
+}
+
+function defaultThumbnail(videoId: string): string {
+    return `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
+}
+
+async function fromYoutubei(videoId: string): Promise<VideoMetadata> {
+    const youtube = await Innertube.create();
+    const info = await youtube.getInfo(videoId);
+    const basic = info.basic_info;
+
+    // The microformat carries the publish date, which the player response itself does not
+    const microformat = info.page[0].microformat;
+    const published = microformat?.is(YTNodes.PlayerMicroformat) ? microformat.publish_date : undefined;
+
+    // Largest thumbnail first
+    const thumbnail = [...(basic.thumbnail ?? [])].sort((a, b) => b.width - a.width)[0]?.url;
+
+    return {
+        videoId,
+        title: basic.title || "Untitled video",
+        thumbnail: thumbnail || defaultThumbnail(videoId),
+        duration: basic.duration || null,
+        channelName: basic.channel?.name || basic.author || null,
+        channelId: basic.channel?.id || basic.channel_id || null,
+        publishDate: published ? published.slice(0, 10) : null,
+        description: basic.short_description ?? "",
+        tags: basic.tags ?? basic.keywords ?? [],
+        viewCount: basic.view_count ?? null,
+        chapters: chaptersFromInfo(info),
+        source: "youtubei",
+    };
+}
+
+async function fromOEmbed(videoId: string): Promise<VideoMetadata> {
+    const oembedUrl = `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`;
+    const response = await fetch(oembedUrl);
+
+    if (!response.ok) {
+        throw new Error(`OEmbed failed with status ${response.status}`);
+    }
+
+    const data: OEmbedResponse = await response.json();
+
+    return {
+        videoId,
+        title: data.title || "Untitled video",
+        thumbnail: data.thumbnail_url || defaultThumbnail(videoId),
+        duration: null,
+        channelName: data.author_name || null,
+        channelId: null,
+        publishDate: null,
+        description: "",
+        tags: [],
+        viewCount: null,
+        chapters: [],
+        source: "oembed",
+    };
+}
+
+/**
+ * Look up a video's metadata with youtubei.js, falling back to oEmbed (title,
+ * channel and thumbnail only) when InnerTube fails. Throws when both fail,
+ * typically for private or removed videos.
+ */
+export async function fetchVideoMetadata(videoId: string): Promise<VideoMetadata> {
+    try {
+        const metadata = await fromYoutubei(videoId);
+        console.log(`[VideoInfo] ${videoId}: "${metadata.title}" via youtubei.js (${metadata.chapters.length} chapters)`);
+        return metadata;
+    } catch (err) {
+        console.log(`[VideoInfo] youtubei.js failed (${err instanceof Error ? err.message : err}), trying oEmbed`);
+    }
+
+    try {
+        return await fromOEmbed(videoId);
+    } catch (error) {
+        console.error("Video info fetch failed:", error);
+        throw new Error("Could not fetch video information. The video may be private or restricted.");
+    }
+}
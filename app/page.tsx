@@ -1,12 +1,32 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { extractVideoId } from "@/app/lib/clientUtils";
+import { extractVideoId, readNdjsonStream } from "@/app/lib/clientUtils";
+import {
+  applyGenerationEvent,
+  INITIAL_PROGRESS,
+  type GenerationEvent,
+  type GenerationProgress,
+  type GenerateResult,
+} from "@/app/lib/generationEvents";
+import type { TutorialAsset, TutorialDocument } from "@/app/lib/tutorialSchema";
+import type { TemplateSummary } from "@/app/lib/promptTemplates";
+import type { CaptionTrackSummary } from "@/app/lib/captionTracks";
+import type { TranscriptSegment } from "@/app/lib/transcriptUtils";
+import type { VideoMetadata } from "@/app/lib/videoMetadata";
+import { formatTimestamp } from "@/app/lib/timestamps";
+import { DEFAULT_GENERATION_OPTIONS, DEFAULT_OUTPUT_LANGUAGE, type GenerationOptions } from "@/app/lib/generationOptions";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { TutorialCard } from "./components/TutorialCard";
 import { ProgressBar } from "./components/ProgressBar";
+import { TemplatePicker } from "./components/TemplatePicker";
+import { LanguagePicker } from "./components/LanguagePicker";
+import { DepthControls } from "./components/DepthControls";
+import { CaptionTrackPicker } from "./components/CaptionTrackPicker";
+import { TranscriptInput, type TranscriptUpload } from "./components/TranscriptInput";
+import { RecordingInput } from "./components/RecordingInput";
 import {
   Youtube,
   Sparkles,
@@ -15,58 +35,111 @@ import {
   BookOpen,
   FileText,
   ArrowLeft,
+  Film,
 } from "lucide-react";
 
 type Status = "idle" | "loading" | "success" | "error";
 
-interface ProgressState {
-  value: number;
-  message: string;
-}
+// Shown as soon as the video ID is known; the rest arrives from /api/video-info
+type VideoPreview = Pick<VideoMetadata, "videoId" | "title" | "thumbnail"> & Partial<VideoMetadata>;
 
-interface VideoMetadata {
-  title: string;
-  thumbnail: string;
-  duration: number;
-  videoId: string;
+/** "Channel · 12:34 · 2024-03-18 · 1,234 views", from whatever is known */
+function describeVideo(video: VideoPreview): string {
+  return [
+    video.channelName,
+    video.duration ? formatTimestamp(video.duration) : null,
+    video.publishDate,
+    typeof video.viewCount === "number" ? `${video.viewCount.toLocaleString()} views` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 }
 
 export default function Home() {
   const [url, setUrl] = useState("");
   const [status, setStatus] = useState<Status>("idle");
   const [tutorial, setTutorial] = useState("");
+  const [tutorialDocument, setTutorialDocument] = useState<TutorialDocument | undefined>(undefined);
   const [error, setError] = useState("");
-  const [progress, setProgress] = useState<ProgressState>({ value: 0, message: "" });
-  const [videoMetadata, setVideoMetadata] = useState<VideoMetadata | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress>(INITIAL_PROGRESS);
+  const [videoMetadata, setVideoMetadata] = useState<VideoPreview | null>(null);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  const [tutorialLanguage, setTutorialLanguage] = useState(DEFAULT_OUTPUT_LANGUAGE);
+  const [tutorialVideoId, setTutorialVideoId] = useState<string | undefined>(undefined);
+  const [tutorialTranscript, setTutorialTranscript] = useState<TranscriptSegment[]>([]);
+  const [tutorialAssets, setTutorialAssets] = useState<TutorialAsset[]>([]);
+  const [tutorialVideo, setTutorialVideo] = useState<VideoMetadata | null>(null);
+
+  const [captions, setCaptions] = useState<{
+    videoId: string;
+    tracks: CaptionTrackSummary[];
+    defaultTrackId: string | null;
+  } | null>(null);
+  const [captionsLoadingFor, setCaptionsLoadingFor] = useState<string | null>(null);
+  const [captionTrackId, setCaptionTrackId] = useState("");
+  const [transcriptUpload, setTranscriptUpload] = useState<TranscriptUpload | null>(null);
+  const [recording, setRecording] = useState<File | null>(null);
+
+  // Caption tracks belong to the video currently in the input; stale ones are ignored
+  const currentVideoId = extractVideoId(url);
+  const captionTracks = captions && captions.videoId === currentVideoId ? captions.tracks : [];
+  const selectedCaptionTrack = captionTracks.some(track => track.id === captionTrackId) ? captionTrackId : "";
+
+  // List the video's caption tracks once the URL has settled
+  useEffect(() => {
+    if (!currentVideoId) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setCaptionsLoadingFor(currentVideoId);
+      fetch("/api/captions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: currentVideoId }),
+        signal: controller.signal,
+      })
+        .then(res => (res.ok ? res.json() : null))
+        .then(data => {
+          if (data) setCaptions({ videoId: currentVideoId, tracks: data.tracks, defaultTrackId: data.defaultTrackId });
+        })
+        .catch(() => {})
+        .finally(() => setCaptionsLoadingFor(current => (current === currentVideoId ? null : current)));
+    }, 500);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [currentVideoId]);
+
+  // Load the available output styles once; the server falls back to its default if this fails
+  useEffect(() => {
+    fetch("/api/templates")
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return;
+        setTemplates(data.templates);
+        setTemplateId(current => current || data.defaultTemplate);
+      })
+      .catch(() => {});
+  }, []);
 
   const generateTutorial = useCallback(async () => {
-    if (!url.trim()) {
-      setError("Please enter a YouTube URL");
+    if (!url.trim() && !transcriptUpload && !recording) {
+      setError("Please enter a YouTube URL, or add a recording or transcript");
       return;
     }
 
     setStatus("loading");
     setError("");
     setVideoMetadata(null);
-    setProgress({ value: 10, message: "Extracting video ID..." });
-
-    // Progress stages for transcript-only processing
-    const progressStages = [
-      { value: 15, message: "Fetching video info...", delay: 1000 },
-      { value: 35, message: "Extracting transcript...", delay: 3000 },
-      { value: 60, message: "Analyzing content with AI...", delay: 4000 },
-      { value: 85, message: "Generating documentation...", delay: 3000 },
-    ];
-
-    // Start progress animation
-    let stageIndex = 0;
-    const progressInterval = setInterval(() => {
-      if (stageIndex < progressStages.length) {
-        const stage = progressStages[stageIndex];
-        setProgress({ value: stage.value, message: stage.message });
-        stageIndex++;
-      }
-    }, 1500);
+    setProgress({
+      ...INITIAL_PROGRESS,
+      value: 2,
+      message: recording ? "Uploading recording..." : transcriptUpload ? "Reading transcript..." : "Extracting video ID...",
+    });
 
     // Extract ID immediately for instant thumbnail
     const videoId = extractVideoId(url);
@@ -74,62 +147,101 @@ export default function Home() {
       setVideoMetadata({
         title: "Loading video details...",
         thumbnail: `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
-        duration: 0,
         videoId: videoId
       });
+    } else if (recording) {
+      setVideoMetadata({ title: recording.name, thumbnail: "", videoId: null });
     }
 
     try {
       // Step 1: Fetch full video metadata (this runs in background while showing instant thumbnail)
-      fetch("/api/video-info", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url }),
-      }).then(async (res) => {
-        if (res.ok) {
-          const infoData = await res.json();
-          setVideoMetadata(prev => ({
-            ...infoData,
-            thumbnail: infoData.thumbnail || prev?.thumbnail || ""
-          }));
-        }
-      });
+      if (videoId) {
+        fetch("/api/video-info", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url }),
+        }).then(async (res) => {
+          if (res.ok) {
+            const infoData: VideoMetadata = await res.json();
+            setVideoMetadata(prev => ({
+              ...infoData,
+              thumbnail: infoData.thumbnail || prev?.thumbnail || ""
+            }));
+          }
+        });
+      }
 
-      // Generate tutorial
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url }),
-      });
+      const request = {
+        url: url.trim() || undefined,
+        template: templateId || undefined,
+        captionTrack: transcriptUpload || recording ? undefined : selectedCaptionTrack || undefined,
+        transcript: transcriptUpload ?? undefined,
+        ...options,
+      };
 
-      clearInterval(progressInterval);
+      // A recording goes as multipart form data, with the request as JSON next to it
+      let body: BodyInit;
+      let headers: HeadersInit | undefined;
+      if (recording) {
+        const form = new FormData();
+        form.append("request", JSON.stringify(request));
+        form.append("video", recording);
+        body = form;
+      } else {
+        body = JSON.stringify(request);
+        headers = { "Content-Type": "application/json" };
+      }
 
-      const data = await response.json();
+      // Generate tutorial, following the streamed progress events
+      const response = await fetch("/api/generate", { method: "POST", headers, body });
 
       if (!response.ok) {
+        const data = await response.json();
         throw new Error(data.error || "Failed to generate tutorial");
       }
 
-      setProgress({ value: 100, message: "Complete!" });
+      const outcome: { result?: GenerateResult; error?: string } = {};
+
+      await readNdjsonStream<GenerationEvent>(response, (event) => {
+        setProgress(prev => applyGenerationEvent(prev, event));
+
+        if (event.type === "complete") outcome.result = event.result;
+        if (event.type === "error") outcome.error = event.error;
+      });
+
+      if (!outcome.result) {
+        throw new Error(outcome.error || "Failed to generate tutorial");
+      }
 
       // Small delay to show 100%
       await new Promise((resolve) => setTimeout(resolve, 500));
 
-      setTutorial(data.tutorial);
+      setTutorial(outcome.result.tutorial);
+      setTutorialDocument(outcome.result.document);
+      setTutorialLanguage(outcome.result.targetLanguage);
+      setTutorialVideoId(outcome.result.videoId ?? undefined);
+      setTutorialTranscript(outcome.result.transcript);
+      setTutorialAssets(outcome.result.assets);
+      setTutorialVideo(outcome.result.video);
       setStatus("success");
     } catch (err) {
-      clearInterval(progressInterval);
       setError(err instanceof Error ? err.message : "Something went wrong");
       setStatus("error");
     }
-  }, [url]);
+  }, [url, templateId, selectedCaptionTrack, transcriptUpload, recording, options]);
 
   const handleReset = () => {
     setStatus("idle");
     setTutorial("");
+    setTutorialDocument(undefined);
+    setTutorialTranscript([]);
+    setTutorialAssets([]);
+    setTutorialVideo(null);
     setError("");
     setUrl("");
-    setProgress({ value: 0, message: "" });
+    setTranscriptUpload(null);
+    setRecording(null);
+    setProgress(INITIAL_PROGRESS);
   };
 
   return (
@@ -182,6 +294,8 @@ export default function Home() {
                       value={url}
                       onChange={(e) => {
                         setUrl(e.target.value);
+                        // A request has either a URL or a recording, never both
+                        if (e.target.value.trim()) setRecording(null);
                         if (error) setError("");
                       }}
                       onKeyDown={(e) => e.key === "Enter" && generateTutorial()}
@@ -197,6 +311,31 @@ export default function Home() {
                   </Button>
                 </div>
 
+                <RecordingInput
+                  value={recording}
+                  onChange={(file) => {
+                    setRecording(file);
+                    if (file) setUrl("");
+                  }}
+                />
+                <TranscriptInput value={transcriptUpload} onChange={setTranscriptUpload} />
+                <CaptionTrackPicker
+                  tracks={transcriptUpload || recording ? [] : captionTracks}
+                  defaultTrackId={captions?.defaultTrackId ?? null}
+                  loading={!transcriptUpload && !recording && captionsLoadingFor !== null && captionsLoadingFor === currentVideoId}
+                  value={selectedCaptionTrack}
+                  onChange={setCaptionTrackId}
+                />
+                <TemplatePicker templates={templates} value={templateId} onChange={setTemplateId} />
+                <LanguagePicker
+                  value={options.language}
+                  onChange={(language) => setOptions(prev => ({ ...prev, language }))}
+                />
+                <DepthControls
+                  value={options}
+                  onChange={(depth) => setOptions(prev => ({ ...prev, ...depth }))}
+                />
+
                 {/* Error message */}
                 <AnimatePresence>
                   {error && (
@@ -229,11 +368,18 @@ export default function Home() {
                     className="relative mb-8 overflow-hidden rounded-xl"
                   >
                     <div className="relative h-48 w-80 sm:h-56 sm:w-96">
-                      <img
-                        src={videoMetadata.thumbnail}
-                        alt="Video Thumbnail"
-                        className="h-full w-full object-cover"
-                      />
+                      {videoMetadata.thumbnail ? (
+                        <img
+                          src={videoMetadata.thumbnail}
+                          alt="Video Thumbnail"
+                          className="h-full w-full object-cover"
+                        />
+                      ) : (
+                        // Recordings have no thumbnail
+                        <div className="flex h-full w-full items-center justify-center bg-[#212121]">
+                          <Film className="h-12 w-12 text-[#717171]" />
+                        </div>
+                      )}
                       {/* Overlay Gradient */}
                       <div className="absolute inset-0 bg-gradient-to-t from-[#0f0f0f] via-transparent to-transparent" />
 
@@ -244,6 +390,24 @@ export default function Home() {
                         </h3>
                       </div>
                     </div>
+
+                    {describeVideo(videoMetadata) && (
+                      <p className="mt-3 text-center text-sm text-[#aaaaaa]">{describeVideo(videoMetadata)}</p>
+                    )}
+                    {videoMetadata.description && (
+                      <p className="mx-auto mt-2 line-clamp-2 max-w-sm text-center text-xs text-[#717171]">
+                        {videoMetadata.description}
+                      </p>
+                    )}
+                    {videoMetadata.tags && videoMetadata.tags.length > 0 && (
+                      <div className="mx-auto mt-3 flex max-w-sm flex-wrap justify-center gap-1.5">
+                        {videoMetadata.tags.slice(0, 6).map(tag => (
+                          <span key={tag} className="rounded-full bg-[#272727] px-2 py-0.5 text-xs text-[#aaaaaa]">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </motion.div>
                 ) : (
                   <div className="mb-8 flex h-20 w-20 items-center justify-center rounded-full bg-[#212121]">
@@ -269,7 +433,12 @@ export default function Home() {
               </div>
 
               <div className="w-full max-w-md">
-                <ProgressBar progress={progress.value} status={progress.message} />
+                <ProgressBar
+                  progress={progress.value}
+                  status={progress.message}
+                  chunks={progress.chunks}
+                  etaSeconds={progress.etaSeconds}
+                />
               </div>
             </motion.div>
           ) : (
@@ -295,7 +464,15 @@ export default function Home() {
                 </Button>
               </motion.div>
 
-              <TutorialCard content={tutorial} />
+              <TutorialCard
+                content={tutorial}
+                document={tutorialDocument}
+                language={tutorialLanguage}
+                videoId={tutorialVideoId}
+                transcript={tutorialTranscript}
+                assets={tutorialAssets}
+                video={tutorialVideo}
+              />
             </motion.div>
           )}
         </AnimatePresence>